@@ -2,7 +2,9 @@ import 'dotenv/config';
 import fs from 'node:fs';
 import fsp from 'node:fs/promises';
 import path from 'node:path';
+import { createHash } from 'node:crypto';
 import { setTimeout as sleep } from 'node:timers/promises';
+import { pathToFileURL } from 'node:url';
 import * as readline from 'node:readline/promises';
 import { stdin as input, stdout as output } from 'node:process';
 
@@ -17,9 +19,25 @@ import type { TiktokenModel } from '@dqbd/tiktoken';
 
 /* ========================== ENV ========================== */
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY!;
+/* LLM provider: openai | openai-compatible（本地 llama.cpp / vLLM / Ollama 等，只需 base URL） */
+const LLM_PROVIDER = process.env.LLM_PROVIDER || 'openai';
+const LLM_BASE_URL = process.env.LLM_BASE_URL || 'http://localhost:11434/v1';
+const LLM_API_KEY  = process.env.LLM_API_KEY || '';
 const TAVILY_API_KEY = process.env.TAVILY_API_KEY!;
-if (!OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
-if (!TAVILY_API_KEY) throw new Error('Missing TAVILY_API_KEY');
+/* Search provider: tavily | searxng | fixture | corpus */
+const SEARCH_PROVIDER = process.env.SEARCH_PROVIDER || 'tavily';
+const SEARXNG_URL = process.env.SEARXNG_URL || 'http://localhost:8888';
+const SEARCH_FIXTURE_PATH = process.env.SEARCH_FIXTURE_PATH || './search-fixtures.json';
+const SEARCH_CORPUS_DIR = path.resolve(process.env.SEARCH_CORPUS_DIR || './corpus');
+if (LLM_PROVIDER !== 'openai' && LLM_PROVIDER !== 'openai-compatible') throw new Error(`Unknown LLM_PROVIDER "${LLM_PROVIDER}"`);
+/* Record / replay: off | record | replay（replay 不連網，模型、搜尋與網頁內容都來自錄製檔） */
+const CASSETTE_MODE = process.env.CASSETTE_MODE || 'off';
+const CASSETTE_PATH = process.env.CASSETTE_PATH || './cassettes/cli.json';
+if (!['off', 'record', 'replay'].includes(CASSETTE_MODE)) throw new Error(`Invalid CASSETTE_MODE "${CASSETTE_MODE}" (off|record|replay)`);
+if (CASSETTE_MODE !== 'replay') {
+  if (LLM_PROVIDER === 'openai' && !OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
+  if (SEARCH_PROVIDER === 'tavily' && !TAVILY_API_KEY) throw new Error('Missing TAVILY_API_KEY');
+}
 
 const WRITER_MODEL   = process.env.WRITER_MODEL   || 'gpt-4o-mini';
 const RESEARCH_MODEL = process.env.RESEARCH_MODEL || 'gpt-4o-mini';
@@ -83,8 +101,79 @@ function label(lang: Exclude<LangCode,'auto'>, en: string, zh: string) {
   return lang.startsWith('zh') ? zh : en; // ja/ko 先使用英文標籤，避免直翻不準
 }
 
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-const tvly = tavily({ apiKey: TAVILY_API_KEY });
+/* ========================== CASSETTE (record / replay) ========================== */
+/* 檔案格式與 core 相同：{ version: 1, entries: { <sha256>: { kind, request, responses[] } } }，
+   鍵為 kind + 請求內容（鍵名排序）的雜湊；相同請求依序回放，用完後重複最後一筆 */
+type CassetteKind = 'chat' | 'embed' | 'search' | 'page';
+type CassetteFile = { version: 1; entries: Record<string, { kind: CassetteKind; request: unknown; responses: unknown[] }> };
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(v => stableStringify(v ?? null)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+const CASSETTE: CassetteFile = (() => {
+  if (CASSETTE_MODE !== 'replay') return { version: 1, entries: {} };  // record 每次從空檔開始
+  const raw = JSON.parse(fs.readFileSync(CASSETTE_PATH, 'utf8'));
+  if (raw?.version !== 1 || !raw.entries) throw new Error(`Invalid cassette file ${CASSETTE_PATH}`);
+  return raw;
+})();
+const CASSETTE_CURSORS = new Map<string, number>();
+let cassetteDirty = false;
+
+async function throughCassette<T>(kind: CassetteKind, request: unknown, produce: () => Promise<T>): Promise<T> {
+  if (CASSETTE_MODE === 'off') return produce();
+  const key = createHash('sha256').update(stableStringify({ kind, request })).digest('hex');
+  if (CASSETTE_MODE === 'replay') {
+    const entry = CASSETTE.entries[key];
+    if (!entry || entry.responses.length === 0) {
+      console.warn(`⚠️ cassette miss: ${kind} ${key.slice(0, 12)} ${clip(stableStringify(request), 160)}`);
+      throw new Error(`Cassette miss: ${kind} ${key.slice(0, 12)}`);
+    }
+    const idx = CASSETTE_CURSORS.get(key) ?? 0;
+    CASSETTE_CURSORS.set(key, idx + 1);
+    return JSON.parse(JSON.stringify(entry.responses[Math.min(idx, entry.responses.length - 1)] ?? null));
+  }
+  const value = await produce();
+  const entry = CASSETTE.entries[key] ??= { kind, request: JSON.parse(JSON.stringify(request)), responses: [] };
+  entry.responses.push(value === undefined ? null : JSON.parse(JSON.stringify(value)));
+  cassetteDirty = true;
+  return value;
+}
+
+async function saveCassette() {
+  if (CASSETTE_MODE !== 'record' || !cassetteDirty) return;
+  cassetteDirty = false;
+  await fsp.mkdir(path.dirname(path.resolve(CASSETTE_PATH)), { recursive: true });
+  const tmp = `${CASSETTE_PATH}.${process.pid}.tmp`;
+  await fsp.writeFile(tmp, JSON.stringify(CASSETTE, null, 2), 'utf8');
+  await fsp.rename(tmp, CASSETTE_PATH);
+}
+
+/* OpenAI 請求在 HTTP 層錄製：回應整段保存（含串流的 SSE 原文），重放時原樣交回 SDK 解析 */
+const cassetteFetch = async (url: string | URL | Request, init?: RequestInit): Promise<Response> => {
+  const target = new URL(url instanceof Request ? url.url : url);
+  const body = typeof init?.body === 'string' ? JSON.parse(init.body) : null;
+  const kind: CassetteKind = target.pathname.endsWith('/embeddings') ? 'embed' : 'chat';
+  const recorded = await throughCassette(kind, { path: target.pathname, body }, async () => {
+    const res = await fetch(url, init);
+    return { status: res.status, contentType: res.headers.get('content-type') || 'application/json', body: await res.text() };
+  });
+  return new Response(recorded.body, { status: recorded.status, headers: { 'content-type': recorded.contentType } });
+};
+
+const openai = new OpenAI({
+  ...(LLM_PROVIDER === 'openai-compatible'
+    ? { baseURL: LLM_BASE_URL, apiKey: LLM_API_KEY || 'not-needed' }
+    : { apiKey: OPENAI_API_KEY || (CASSETTE_MODE === 'replay' ? 'replay' : undefined) }),
+  ...(CASSETTE_MODE !== 'off' ? { fetch: cassetteFetch } : {}),
+});
 
 /* ========================== TOKEN TRACKER ========================== */
 type ChatMsg = { role: 'system'|'user'|'assistant'; content: string };
@@ -307,33 +396,172 @@ async function withBudget<T>(
 async function fetchPageTool(url: string) {
   const cached = fromCache(FETCH_CACHE, url);
   if (cached) return cached;
-  const data = await extract(url).catch(() => null);
-  const out = {
-    url,
-    title: data?.title,
-    content: data?.content?.replace(/\s+/g, ' ').trim().slice(0, 4000) || '',
-    published: data?.published || undefined,
-    description: data?.description || undefined,
-  };
+  const out = await throughCassette('page', { url }, async () => {
+    // 語料庫文件直接讀本地內容
+    if (url.startsWith('file:')) {
+      const doc = (await loadCorpus()).find(d => d.url === url);
+      return { url, title: doc?.title, content: doc?.text.replace(/\s+/g, ' ').trim().slice(0, 4000) || '', published: doc?.published };
+    }
+    const data = await extract(url).catch(() => null);
+    return {
+      url,
+      title: data?.title,
+      content: data?.content?.replace(/\s+/g, ' ').trim().slice(0, 4000) || '',
+      published: data?.published || undefined,
+      description: data?.description || undefined,
+    };
+  }).catch(() => ({ url, content: '' } as { url: string; title?: string; content: string; published?: string; description?: string }));
   setCache(FETCH_CACHE, url, out);
   return out;
 }
+type SearchArgs = { query: string; maxResults: number; topic: 'general' | 'news'; days: number; includeRaw: boolean };
+type SearchProvider = { name: string; search(args: SearchArgs): Promise<Source[]> };
+
+function tavilyProvider(): SearchProvider {
+  let tvly: ReturnType<typeof tavily> | null = null;  // 延遲建立：重放時不需要金鑰
+  return {
+    name: 'tavily',
+    async search({ query, maxResults, topic, days, includeRaw }) {
+      tvly ??= tavily({ apiKey: TAVILY_API_KEY });
+      const params: any = {
+        query, max_results: maxResults, topic, include_answer: false, include_raw_content: includeRaw,
+      };
+      if (topic === 'news') params.days = days;
+      const res = await tvly.search(query, params);
+      return (res.results || []).map((r: any) => ({
+        title: r.title, url: r.url, snippet: r.content || r.snippet, published: r.published_date || r.publishedAt,
+      })) as Source[];
+    },
+  };
+}
+function searxngProvider(): SearchProvider {
+  return {
+    name: 'searxng',
+    async search({ query, maxResults, topic, days }) {
+      const url = new URL(SEARXNG_URL.replace(/\/+$/, '') + '/search');
+      url.searchParams.set('q', query);
+      url.searchParams.set('format', 'json');
+      url.searchParams.set('categories', topic === 'news' ? 'news' : 'general');
+      if (topic === 'news') url.searchParams.set('time_range', days <= 1 ? 'day' : days <= 7 ? 'week' : 'month');
+      const res = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (!res.ok) return [];
+      const json: any = await res.json();
+      return (json?.results || []).slice(0, maxResults).map((r: any) => ({
+        title: r.title, url: r.url, snippet: r.content, published: r.publishedDate || undefined,
+      })) as Source[];
+    },
+  };
+}
+function fixtureProvider(): SearchProvider {
+  let data: { queries: Record<string, Source[]>; sources: Source[] } | null = null;
+  return {
+    name: 'fixture',
+    async search({ query, maxResults }) {
+      if (!data) {
+        const raw = JSON.parse(await fsp.readFile(SEARCH_FIXTURE_PATH, 'utf8').catch(() => '[]'));
+        data = Array.isArray(raw) ? { queries: {}, sources: raw } : { queries: raw.queries || {}, sources: raw.sources || [] };
+      }
+      const exact = data.queries[query];
+      if (exact) return exact.slice(0, maxResults);
+      const words = query.toLowerCase().split(/\s+/).filter(w => w.length > 1);
+      return [...data.sources, ...Object.values(data.queries).flat()]
+        .map(s => ({ s, hits: words.filter(w => `${s.title || ''} ${s.snippet || ''}`.toLowerCase().includes(w)).length }))
+        .filter(x => x.hits > 0)
+        .sort((a, b) => b.hits - a.hits)
+        .slice(0, maxResults)
+        .map(x => x.s);
+    },
+  };
+}
+/* 本地文件語料庫：SEARCH_CORPUS_DIR 下的 .txt / .md / .json / .html */
+type CorpusDoc = { title: string; url: string; text: string; published: string; paragraphs: string[] };
+const CORPUS_EXTENSIONS = new Set(['.txt', '.md', '.markdown', '.json', '.html', '.htm']);
+let corpusDocs: Promise<CorpusDoc[]> | null = null;
+function loadCorpus(): Promise<CorpusDoc[]> {
+  const walk = async (dir: string): Promise<string[]> => {
+    const entries = await fsp.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
+    for (const e of entries) {
+      const full = path.join(dir, e.name);
+      if (e.isDirectory()) files.push(...await walk(full));
+      else if (CORPUS_EXTENSIONS.has(path.extname(e.name).toLowerCase())) files.push(full);
+    }
+    return files;
+  };
+  corpusDocs ??= (async () => {
+    const files = await walk(SEARCH_CORPUS_DIR);
+    if (files.length === 0) console.warn(`[Corpus] 目錄 ${SEARCH_CORPUS_DIR} 沒有可用文件`);
+    const docs: CorpusDoc[] = [];
+    for (const file of files) {
+      try {
+        const [raw, stat] = await Promise.all([fsp.readFile(file, 'utf8'), fsp.stat(file)]);
+        const ext = path.extname(file).toLowerCase();
+        let text = raw, title = '';
+        if (ext === '.json') {
+          const obj = JSON.parse(raw);
+          title = obj.title || '';
+          text = obj.content || obj.text || obj.snippet || '';
+        } else if (ext === '.html' || ext === '.htm') {
+          title = raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim() || '';
+          text = raw.replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ');
+        } else {
+          title = raw.match(/^#\s+(.+)$/m)?.[1]?.trim() || '';
+        }
+        const paragraphs = text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+        docs.push({ title: title || path.basename(file), url: pathToFileURL(file).href, text: paragraphs.join('\n'), published: stat.mtime.toISOString(), paragraphs });
+      } catch (e) {
+        console.warn(`[Corpus] 跳過無法解析的文件 ${file}:`, e instanceof Error ? e.message : e);
+      }
+    }
+    return docs;
+  })();
+  return corpusDocs;
+}
+function corpusProvider(): SearchProvider {
+  const hitsIn = (words: string[], text: string) => {
+    const lower = text.toLowerCase();
+    return words.filter(w => lower.includes(w)).length;
+  };
+  return {
+    name: 'corpus',
+    async search({ query, maxResults }) {
+      const words = query.toLowerCase().split(/\s+/).filter(w => w.length > 1);
+      return (await loadCorpus())
+        .map(doc => ({
+          doc,
+          hits: hitsIn(words, `${doc.title}\n${doc.text}`),
+          // 以最相關段落作為摘要
+          snippet: doc.paragraphs.reduce((best, p) => (hitsIn(words, p) > hitsIn(words, best) ? p : best), doc.paragraphs[0] || ''),
+        }))
+        .filter(x => x.hits > 0)
+        .sort((a, b) => b.hits - a.hits)
+        .slice(0, maxResults)
+        .map(x => ({ title: x.doc.title, url: x.doc.url, snippet: x.snippet.slice(0, 500), published: x.doc.published })) as Source[];
+    },
+  };
+}
+const SEARCH_PROVIDERS: Record<string, () => SearchProvider> = {
+  tavily: tavilyProvider,
+  searxng: searxngProvider,
+  fixture: fixtureProvider,
+  corpus: corpusProvider,
+};
+const searchProvider: SearchProvider = (() => {
+  const factory = SEARCH_PROVIDERS[SEARCH_PROVIDER];
+  if (!factory) throw new Error(`Unknown SEARCH_PROVIDER "${SEARCH_PROVIDER}" (${Object.keys(SEARCH_PROVIDERS).join('|')})`);
+  return factory();
+})();
+
 async function webSearchTool(args: {
   query: string; maxResults?: number; topic?: 'general' | 'news'; days?: number; includeRaw?: boolean;
 }) {
   const { query, maxResults = SEARCH_MAX_RESULTS, topic = 'general', days = NEWS_DAYS, includeRaw = false } = args;
-  const key = `${topic}|${maxResults}|${days}|${query}`;
+  const key = `${searchProvider.name}|${topic}|${maxResults}|${days}|${query}`;
   const cached = fromCache(SEARCH_CACHE, key);
   if (cached) return cached;
 
-  const params: any = {
-    query, max_results: maxResults, topic, include_answer: false, include_raw_content: includeRaw,
-  };
-  if (topic === 'news') params.days = days;
-  const res = await tvly.search(query, params);
-  const list = (res.results || []).map((r: any) => ({
-    title: r.title, url: r.url, snippet: r.content || r.snippet, published: r.published_date || r.publishedAt,
-  })) as Source[];
+  const list = await throughCassette('search', { provider: searchProvider.name, query, maxResults, topic, days, includeRaw },
+    () => searchProvider.search({ query, maxResults, topic, days, includeRaw }));
   setCache(SEARCH_CACHE, key, list);
   return list;
 }
@@ -1081,11 +1309,13 @@ async function main() {
 
     history.push({ role: 'assistant', content: finalAnswer });
     await agentMemorizer(t, finalAnswer);
+    await saveCassette();
     console.log('—— (memorized) ——\n');
     await sleep(30);
   }
 
   rl.close();
+  await saveCassette();
   console.log('👋 Bye!');
 }
 main().catch(err => {
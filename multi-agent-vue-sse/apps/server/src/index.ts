@@ -3,8 +3,12 @@ import express, { Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'node:path';
+import { randomUUID } from 'node:crypto';
 import { fileURLToPath } from 'node:url';
-import { ResearchPipeline, Settings } from '@multi/core';
+import {
+  ResearchPipeline, Settings, RunEvent, CFG, listSearchProviders, getMemoryManager, isValidMemoryScope, getThreadStore, isValidThreadId,
+  getRunStore, runState, formatRunEventId, parseRunEventId, responseText
+} from '@multi/core';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,13 +30,29 @@ console.log(`[server] 根目录 .env 加载状态: ${process.env.OPENAI_API_KEY
 dotenv.config({ path: serverEnvPath });
 console.log(`[server] Server目录 .env 加载状态: ${process.env.OPENAI_API_KEY ? '成功' : '失败'}`);
 
-// 检查必要环境变量
-if (!process.env.OPENAI_API_KEY) {
-  console.error('[server] ❌ 缺少 OPENAI_API_KEY: 系统无法正常工作');
+// 检查必要环境变量：只有用到官方 OpenAI 提供者的角色才需要 OPENAI_API_KEY
+const llmProviders = [...new Set([CFG.LLM_PROVIDER, ...Object.values(CFG.LLM_ROLE_PROVIDERS)])];
+console.log(`[server] LLM 提供者: ${llmProviders.join(', ')}`);
+if (CFG.CASSETTE_MODE !== 'off') {
+  console.log(`[server] 录制模式: ${CFG.CASSETTE_MODE} (${CFG.CASSETTE_PATH})`);
+}
+// 重放时模型回应全部来自录制文件，不需要密钥
+if (CFG.CASSETTE_MODE !== 'replay' && llmProviders.includes('openai') && !process.env.OPENAI_API_KEY) {
+  console.error('[server] ❌ 缺少 OPENAI_API_KEY: 系统无法正常工作（或设置 LLM_PROVIDER=openai-compatible 改用本地模型）');
+  process.exit(1);
+}
+
+const SEARCH_PROVIDER = process.env.SEARCH_PROVIDER ?? 'tavily';
+console.log(`[server] 搜索提供者: ${SEARCH_PROVIDER}`);
+// 预设提供者会作为每次请求的后备值，写错时在启动阶段就结束
+if (!listSearchProviders().includes(SEARCH_PROVIDER)) {
+  console.error(`[server] ❌ 未知的 SEARCH_PROVIDER "${SEARCH_PROVIDER}"，可用: ${listSearchProviders().join(', ')}`);
   process.exit(1);
 }
 
-if (!process.env.TAVILY_API_KEY) {
+if (SEARCH_PROVIDER !== 'tavily') {
+  console.log(`[server] 使用 ${SEARCH_PROVIDER} 搜索，不需要 TAVILY_API_KEY`);
+} else if (!process.env.TAVILY_API_KEY) {
   console.warn('[server] ⚠️ 缺少 TAVILY_API_KEY: Web 搜索功能将被禁用');
   console.warn('[server] 请在 .env 文件中添加 TAVILY_API_KEY=tvly-...');
 } else {
@@ -41,7 +61,10 @@ if (!process.env.TAVILY_API_KEY) {
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '2mb' }));  // POST /api/runs 可附加長文件
+
+const LANGS: Settings['lang'][] = ['auto', 'en', 'zh-TW', 'ja', 'ko'];
+const SPEED_MODES: Settings['speedMode'][] = ['fast', 'balanced', 'thorough'];
 
 // ---- 後端預設值（可被 query 覆蓋） ----
 const DEF = {
@@ -54,6 +77,9 @@ const DEF = {
   MIN_EN_SOURCES: Number(process.env.MIN_EN_SOURCES ?? '3'),
   MAX_PER_DOMAIN: Number(process.env.MAX_PER_DOMAIN ?? '2'),
   QUERY_EXPANSION: (process.env.QUERY_EXPANSION ?? '1') !== '0',
+  SEARCH_PROVIDER,
+  CONSENSUS: (process.env.CONSENSUS_ENABLED ?? '0') !== '0',
+  MEMORY: (process.env.MEMORY_ENABLED ?? '1') !== '0',
 };
 
 // 提供前端取用的預設
@@ -65,21 +91,296 @@ app.get('/api/config', (_req: Request, res: Response) => {
     minEnSources: DEF.MIN_EN_SOURCES,
     maxPerDomain: DEF.MAX_PER_DOMAIN,
     queryExpansion: DEF.QUERY_EXPANSION,
+    searchProvider: DEF.SEARCH_PROVIDER,
+    searchProviders: listSearchProviders(),
+    consensus: DEF.CONSENSUS,
+    memory: DEF.MEMORY,
+  });
+});
+
+// Express 4 不會捕捉 async handler 的 rejection，統一回 500
+const handle = (fn: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response) => {
+    fn(req, res).catch((err: any) => {
+      console.error(`[api] ${req.method} ${req.path} failed:`, err);
+      if (!res.headersSent) res.status(500).json({ error: err?.message || 'unknown error' });
+    });
+  };
+
+// ---- 對話串（多輪追問） ----
+const threads = getThreadStore();
+
+// 列出對話串（最近更新在前）
+app.get('/api/threads', handle(async (_req: Request, res: Response) => {
+  res.json({ threads: await threads.list() });
+}));
+
+// 取得單一對話串（含每輪問答、來源與事實）
+app.get('/api/threads/:id', handle(async (req: Request, res: Response) => {
+  const thread = await threads.get(req.params.id);
+  if (!thread) return res.status(404).json({ error: 'not found' });
+  res.json(thread);
+}));
+
+// 重新命名
+app.patch('/api/threads/:id', handle(async (req: Request, res: Response) => {
+  const title = typeof req.body?.title === 'string' ? req.body.title.trim().slice(0, 100) : '';
+  if (!title) return res.status(400).json({ error: 'missing title' });
+  const thread = await threads.rename(req.params.id, title);
+  if (!thread) return res.status(404).json({ error: 'not found' });
+  res.json(thread);
+}));
+
+// 刪除
+app.delete('/api/threads/:id', handle(async (req: Request, res: Response) => {
+  const deleted = await threads.delete(req.params.id);
+  if (!deleted) return res.status(404).json({ error: 'not found' });
+  res.json({ deleted: 1 });
+}));
+
+// ---- 長期記憶管理（依 scope 隔離，scope 由前端產生並保存） ----
+const memory = getMemoryManager();
+
+function memoryScopeOf(req: Request, res: Response): string | null {
+  const scope = String(req.query.scope ?? '').trim();
+  if (!isValidMemoryScope(scope)) {
+    res.status(400).json({ error: 'invalid or missing scope' });
+    return null;
+  }
+  return scope;
+}
+
+// 列出記憶（新到舊）
+app.get('/api/memory', handle(async (req: Request, res: Response) => {
+  const scope = memoryScopeOf(req, res);
+  if (!scope) return;
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit ?? 50) || 50));
+  const offset = Math.max(0, Number(req.query.offset ?? 0) || 0);
+  res.json(await memory.list(scope, limit, offset));
+}));
+
+// 語意搜尋記憶
+app.get('/api/memory/search', handle(async (req: Request, res: Response) => {
+  const scope = memoryScopeOf(req, res);
+  if (!scope) return;
+  const q = String(req.query.q ?? '').trim();
+  if (!q) return res.status(400).json({ error: 'missing q' });
+  const k = Math.min(50, Math.max(1, Number(req.query.k ?? 10) || 10));
+  res.json({ entries: await memory.search(scope, q, k) });
+}));
+
+// 匯出記憶（JSONL 下載）
+app.get('/api/memory/export', handle(async (req: Request, res: Response) => {
+  const scope = memoryScopeOf(req, res);
+  if (!scope) return;
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="memory-${scope}.jsonl"`);
+  res.send(await memory.export(scope));
+}));
+
+// 刪除單筆記憶
+app.delete('/api/memory/:id', handle(async (req: Request, res: Response) => {
+  const scope = memoryScopeOf(req, res);
+  if (!scope) return;
+  const deleted = await memory.delete(scope, req.params.id);
+  if (!deleted) return res.status(404).json({ error: 'not found' });
+  res.json({ deleted: 1 });
+}));
+
+// 清空該 scope 的全部記憶
+app.delete('/api/memory', handle(async (req: Request, res: Response) => {
+  const scope = memoryScopeOf(req, res);
+  if (!scope) return;
+  res.json({ deleted: await memory.clear(scope) });
+}));
+
+// ---- 流程執行（事件日誌與斷線重連） ----
+const runs = getRunStore();
+
+// 將執行的事件寫成 SSE：先補送 afterId 之後的事件，進行中的執行再持續推送，直到 done
+async function streamRun(res: Response, runId: string, afterId: number): Promise<void> {
+  const write = (e: RunEvent) => {
+    // 客戶端已斷線時不再寫入
+    if (res.writableEnded || res.destroyed) return;
+    res.write(`id: ${formatRunEventId(runId, e.id)}\n`);
+    res.write(`event: ${e.event}\n`);
+    res.write(`data: ${JSON.stringify(e.data)}\n\n`);
+    if (e.event === 'done') res.end();
+  };
+
+  const sub = await subscribeRun(runId, afterId, write);
+  // 找不到執行時回 204，EventSource 收到後不再重連
+  if (!sub) return void res.status(204).end();
+
+  // 設定 SSE header
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // for nginx
+  res.flushHeaders();
+
+  // 心跳避免連線被中斷
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), 15000);
+  // 斷線時退訂；所有客戶端都離開且未在寬限期內重連，流程才會被取消
+  res.on('close', () => {
+    clearInterval(keepalive);
+    sub.unsubscribe();
   });
+
+  sub.start();
+  if (sub.status !== 'running' && !res.writableEnded) res.end();
+}
+
+// 訂閱執行：start() 之後才開始回呼，先補送 afterId 之後的事件再即時推送（期間的新事件暫存，確保順序）
+async function subscribeRun(runId: string, afterId: number, onEvent: (e: RunEvent) => void) {
+  let ready = false;
+  const pending: RunEvent[] = [];
+  const sub = await runs.subscribe(runId, afterId, e => ready ? onEvent(e) : pending.push(e));
+  if (!sub) return null;
+  return {
+    status: sub.status,
+    unsubscribe: sub.unsubscribe,
+    start: () => {
+      sub.replay.forEach(onEvent);
+      pending.forEach(onEvent);
+      ready = true;
+    },
+  };
+}
+
+// ---- POST /api/runs 的 JSON 驗證：欄位對應 Settings，另加 question 與 documents；未提供的欄位採後端預設 ----
+const MAX_QUESTION_CHARS = 20000;
+const MAX_DOCUMENTS = 10;
+const MAX_DOCUMENT_CHARS = 200000;
+const RUN_BODY_FIELDS = new Set([
+  'question', 'speedMode', 'lang', 'useWeb', 'timeLimitMs', 'minEnSources', 'maxPerDomain', 'queryExpansion',
+  'searchProvider', 'consensus', 'memoryScope', 'threadId', 'documents',
+]);
+
+// newThread：未帶 threadId 時是否開新對話串（OpenAI 相容介面以 messages 自帶歷史，不建立對話串）
+function parseRunBody(body: any, newThread = true): { question: string; settings: Settings } | { errors: string[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { errors: ['body must be a JSON object'] };
+  const errors = Object.keys(body).filter(k => !RUN_BODY_FIELDS.has(k)).map(k => `unknown field "${k}"`);
+
+  const oneOf = <T>(key: string, allowed: readonly T[], fallback: T): T => {
+    if (body[key] === undefined) return fallback;
+    if (!allowed.includes(body[key])) errors.push(`${key} must be one of: ${allowed.join(', ')}`);
+    return body[key];
+  };
+  const bool = (key: string, fallback: boolean): boolean => {
+    if (body[key] === undefined) return fallback;
+    if (typeof body[key] !== 'boolean') errors.push(`${key} must be a boolean`);
+    return body[key];
+  };
+  const count = (key: string, fallback: number): number => {
+    if (body[key] === undefined) return fallback;
+    if (!Number.isInteger(body[key]) || body[key] < 0) errors.push(`${key} must be a non-negative integer`);
+    return body[key];
+  };
+  const id = (key: string, valid: (v: unknown) => boolean): string | undefined => {
+    if (body[key] === undefined || body[key] === null) return undefined;
+    if (!valid(body[key])) errors.push(`${key} must be 1-64 characters of letters, digits and ._-`);
+    return body[key];
+  };
+
+  const question = typeof body.question === 'string' ? body.question.trim() : '';
+  if (!question) errors.push('question must be a non-empty string');
+  else if (question.length > MAX_QUESTION_CHARS) errors.push(`question must be at most ${MAX_QUESTION_CHARS} characters`);
+
+  // 0 或 null 表示不限時
+  let timeLimitMs = DEF.MAX_TIME_MS;
+  if (body.timeLimitMs !== undefined) {
+    if (body.timeLimitMs !== null && (typeof body.timeLimitMs !== 'number' || !(body.timeLimitMs >= 0))) {
+      errors.push('timeLimitMs must be a non-negative number or null');
+    }
+    timeLimitMs = body.timeLimitMs || null;
+  }
+
+  const documents = body.documents ?? [];
+  if (!Array.isArray(documents) || documents.length > MAX_DOCUMENTS) {
+    errors.push(`documents must be an array of at most ${MAX_DOCUMENTS} items`);
+  } else {
+    documents.forEach((d: any, i: number) => {
+      if (!d || typeof d.content !== 'string' || !d.content.trim()) errors.push(`documents[${i}].content must be a non-empty string`);
+      else if (d.content.length > MAX_DOCUMENT_CHARS) errors.push(`documents[${i}].content must be at most ${MAX_DOCUMENT_CHARS} characters`);
+      for (const key of ['title', 'url']) {
+        if (d?.[key] !== undefined && typeof d[key] !== 'string') errors.push(`documents[${i}].${key} must be a string`);
+      }
+    });
+  }
+
+  const settings: Settings = {
+    speedMode: oneOf('speedMode', SPEED_MODES, DEF.SPEED_MODE),
+    lang: oneOf('lang', LANGS, DEF.TARGET_LANG),
+    useWeb: bool('useWeb', true),
+    timeLimitMs,
+    minEnSources: count('minEnSources', DEF.MIN_EN_SOURCES),
+    maxPerDomain: count('maxPerDomain', DEF.MAX_PER_DOMAIN),
+    queryExpansion: bool('queryExpansion', DEF.QUERY_EXPANSION),
+    searchProvider: oneOf('searchProvider', listSearchProviders(), DEF.SEARCH_PROVIDER),
+    consensus: bool('consensus', DEF.CONSENSUS),
+    memoryScope: id('memoryScope', isValidMemoryScope),
+    // 未帶 threadId 時開新對話串
+    threadId: id('threadId', isValidThreadId) ?? (newThread ? randomUUID() : undefined),
+    ...(documents.length ? { documents } : {}),
+  };
+  return errors.length ? { errors } : { question, settings };
+}
+
+// 建立執行：流程在背景進行，事件由 GET /api/runs/:id/events 取得
+app.post('/api/runs', (req: Request, res: Response) => {
+  const parsed = parseRunBody(req.body);
+  if ('errors' in parsed) return res.status(400).json({ error: 'invalid request', details: parsed.errors });
+  const run = runs.start(parsed.question, parsed.settings);
+  run.emit('run', { id: run.id });
+  startRun(parsed.question, parsed.settings, run);
+  res.status(202).json({ id: run.id, status: 'running', events: `/api/runs/${run.id}/events` });
 });
 
+// 列出進行中與最近的執行（新到舊）
+app.get('/api/runs', handle(async (req: Request, res: Response) => {
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit ?? 50) || 50));
+  res.json({ runs: await runs.list(limit) });
+}));
+
+// SSE：執行的事件流；Last-Event-ID 或 ?after=<序號> 只送該序號之後的事件
+app.get('/api/runs/:id/events', handle(async (req: Request, res: Response) => {
+  const resume = parseRunEventId(req.get('Last-Event-ID'));
+  const after = resume?.runId === req.params.id ? resume.seq : Math.max(0, Number(req.query.after ?? 0) || 0);
+  await streamRun(res, req.params.id, after);
+}));
+
+// 取得已結束（或進行中）執行的狀態：每種事件的最終內容
+app.get('/api/runs/:id', handle(async (req: Request, res: Response) => {
+  const record = await runs.get(req.params.id);
+  if (!record) return res.status(404).json({ error: 'not found' });
+  const { events, ...summary } = record;
+  res.json({ ...summary, eventCount: events.length, lastEventId: formatRunEventId(record.id, events.length), state: runState(events) });
+}));
+
 // SSE：主執行端點
-app.get('/api/chat', async (req: Request, res: Response) => {
+app.get('/api/chat', handle(async (req: Request, res: Response) => {
+  // EventSource 斷線重連時會帶 Last-Event-ID（`${runId}:${seq}`），接續原本的執行而非重新開始
+  const resume = parseRunEventId(req.get('Last-Event-ID') ?? req.query.lastEventId);
+  if (resume) return streamRun(res, resume.runId, resume.seq);
+
   const question = String(req.query.question ?? '').trim();
   if (!question) return res.status(400).end('missing question');
 
+  // 未帶 threadId 時開新對話串（ID 於 thread 事件回傳，追問時帶回）
+  const rawThreadId = req.query.threadId != null ? String(req.query.threadId).trim() : '';
+  if (rawThreadId && !isValidThreadId(rawThreadId)) return res.status(400).end('invalid threadId');
+  const threadId = rawThreadId || randomUUID();
+
   // 解析設定（允許被 query 覆蓋；否則 fallback 到 .env 預設）
-  const allowedLang = new Set<Settings['lang']>(['auto','en','zh-TW','ja','ko']);
   const rawLang = String(req.query.lang ?? DEF.TARGET_LANG).trim() as Settings['lang'];
-  const lang = allowedLang.has(rawLang) ? rawLang : DEF.TARGET_LANG;
+  const lang = LANGS.includes(rawLang) ? rawLang : DEF.TARGET_LANG;
+
+  const rawSpeed = String(req.query.speedMode ?? DEF.SPEED_MODE) as Settings['speedMode'];
+  const speedMode = SPEED_MODES.includes(rawSpeed) ? rawSpeed : DEF.SPEED_MODE;
 
-  const rawSpeed = String(req.query.speedMode ?? DEF.SPEED_MODE);
-  const speedMode = (['fast','balanced','thorough'].includes(rawSpeed) ? rawSpeed : DEF.SPEED_MODE) as Settings['speedMode'];
+  const rawProvider = String(req.query.searchProvider ?? DEF.SEARCH_PROVIDER).trim();
+  const searchProvider = listSearchProviders().includes(rawProvider) ? rawProvider : DEF.SEARCH_PROVIDER;
 
   const settings: Settings = {
     speedMode,
@@ -89,36 +390,179 @@ app.get('/api/chat', async (req: Request, res: Response) => {
     minEnSources: req.query.minEnSources ? Number(req.query.minEnSources) : DEF.MIN_EN_SOURCES,
     maxPerDomain: req.query.maxPerDomain ? Number(req.query.maxPerDomain) : DEF.MAX_PER_DOMAIN,
     queryExpansion: req.query.queryExpansion != null ? String(req.query.queryExpansion) === 'true' : DEF.QUERY_EXPANSION,
+    searchProvider,
+    consensus: req.query.consensus != null ? String(req.query.consensus) === 'true' : DEF.CONSENSUS,
+    memoryScope: isValidMemoryScope(req.query.memoryScope) ? req.query.memoryScope : undefined,
+    threadId,
   };
 
-  // 設定 SSE header
-  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
-  res.setHeader('Cache-Control', 'no-cache, no-transform');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('X-Accel-Buffering', 'no'); // for nginx
+  // 流程在背景執行並寫入事件日誌，與這條連線脫鉤；連線只是日誌的訂閱者
+  const run = runs.start(question, settings);
+  run.emit('run', { id: run.id });
+  startRun(question, settings, run);
+  await streamRun(res, run.id, 0);
+}));
 
-  const send = (event: string, data: any) => {
-    res.write(`event: ${event}\n`);
-    res.write(`data: ${JSON.stringify(data)}\n\n`);
+// 執行流程；流程結束時會自行送出 done，僅在流程沒送出時補送
+function startRun(question: string, settings: Settings, run: ReturnType<typeof runs.start>): void {
+  let doneSent = false;
+  const emit = (event: string, payload: any) => {
+    if (event === 'done') doneSent = true;
+    return run.emit(event, payload);
   };
+  // 在 promise 链内建立流程：建构失败也会送出 error / done 并结束这次执行
+  Promise.resolve()
+    .then(() => new ResearchPipeline().runPipeline(question, settings, emit, run.signal))
+    .catch((err: any) => {
+      console.error('[pipeline] failed:', err);
+      emit('error', { message: err?.message || 'unknown error' });
+    })
+    .finally(async () => {
+      if (!doneSent) emit('done', {});
+      await runs.finish(run.id);
+    });
+}
 
-  // 心跳避免連線被中斷
-  const keepalive = setInterval(() => res.write(': keepalive\n\n'), 15000);
-  const ac = new AbortController();
-  req.on('close', () => { clearInterval(keepalive); ac.abort(); });
-
-  try {
-    const pipeline = new ResearchPipeline();
-    await pipeline.runPipeline(question, settings, (ev: string, payload: any) => send(ev, payload));
-  } catch (err: any) {
-    console.error('[pipeline] failed:', err);
-    send('error', { message: err?.message || 'unknown error' });
-  } finally {
-    clearInterval(keepalive);
-    send('done', {});
+// ---- OpenAI 相容介面：一次 /v1/chat/completions 對應一次流程執行 ----
+// model 決定速度模式（multi-agent 採後端預設 SPEED_MODE）
+const MODEL_MODES: Record<string, Settings['speedMode'] | undefined> = {
+  'multi-agent': undefined,
+  'multi-agent-fast': 'fast',
+  'multi-agent-balanced': 'balanced',
+  'multi-agent-thorough': 'thorough',
+};
+
+const openaiError = (res: Response, status: number, message: string, param: string | null = null, code: string | null = null) =>
+  res.status(status).json({ error: { message, type: status >= 500 ? 'server_error' : 'invalid_request_error', param, code } });
+
+function messageText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  // content parts：只取文字部分
+  if (Array.isArray(content)) return content.filter(p => p?.type === 'text' && typeof p.text === 'string').map(p => p.text).join('\n');
+  return '';
+}
+
+// 最後一則 user 訊息作為問題，之前的訊息轉成對話歷史（S: system，U / A: 先前輪次）
+function fromMessages(messages: unknown): { question: string; history: string } | null {
+  if (!Array.isArray(messages) || messages.length === 0) return null;
+  const last = messages[messages.length - 1];
+  const question = messageText(last?.content).trim();
+  if (last?.role !== 'user' || !question) return null;
+  const prefix: Record<string, string> = { system: 'S', developer: 'S', user: 'U', assistant: 'A' };
+  const history = messages.slice(0, -1)
+    .filter(m => prefix[m?.role] && messageText(m.content).trim())
+    .map(m => `${prefix[m.role]}: ${messageText(m.content).trim()}`)
+    .join('\n');
+  return { question, history };
+}
+
+// 擴充欄位 research：研究過程的產出（來源、事實、查核與可信度）
+function researchExtension(runId: string, state: Record<string, any>) {
+  return {
+    run_id: runId,
+    plan: state.plan ?? null,
+    sources: state.sources ?? [],
+    facts: state.facts ?? [],
+    citations: state.response?.citations ?? null,
+    factcheck: state.factcheck ?? null,
+    credibility: state.credibility ?? null,
+    errors: state.error ?? [],
+  };
+}
+
+function completionUsage(state: Record<string, any>) {
+  const t = state.tokens ?? {};
+  return { prompt_tokens: t.prompt ?? 0, completion_tokens: t.completion ?? 0, total_tokens: t.total ?? 0 };
+}
+
+app.get('/v1/models', (_req: Request, res: Response) => {
+  res.json({ object: 'list', data: Object.keys(MODEL_MODES).map(id => ({ id, object: 'model', created: 0, owned_by: 'multi-agent' })) });
+});
+
+app.post('/v1/chat/completions', handle(async (req: Request, res: Response) => {
+  const body = req.body ?? {};
+  const model = typeof body.model === 'string' ? body.model : 'multi-agent';
+  if (!(model in MODEL_MODES)) return openaiError(res, 404, `The model '${model}' does not exist`, 'model', 'model_not_found');
+  const input = fromMessages(body.messages);
+  if (!input) return openaiError(res, 400, 'messages must be a non-empty array ending with a user message', 'messages');
+
+  // 擴充欄位 research 可帶 /api/runs 的設定欄位（useWeb、lang、documents…），覆蓋 model 對應的速度模式
+  const extra = body.research ?? {};
+  if (typeof extra !== 'object' || Array.isArray(extra)) return openaiError(res, 400, 'research must be an object', 'research');
+  const parsed = parseRunBody({ speedMode: MODEL_MODES[model], ...extra, question: input.question }, false);
+  if ('errors' in parsed) return openaiError(res, 400, parsed.errors.join('; '), 'research');
+  const settings: Settings = { ...parsed.settings, ...(input.history ? { history: input.history } : {}) };
+
+  const run = runs.start(parsed.question, settings);
+  run.emit('run', { id: run.id });
+  startRun(parsed.question, settings, run);
+
+  const id = `chatcmpl-${run.id}`;
+  const created = Math.floor(Date.now() / 1000);
+  const events: RunEvent[] = [];
+  const stream = body.stream === true;
+  let streamed = '';
+
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null, extra: Record<string, unknown> = {}) => {
+    if (res.writableEnded || res.destroyed) return;
+    res.write(`data: ${JSON.stringify({
+      id, object: 'chat.completion.chunk', created, model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }], ...extra,
+    })}\n\n`);
+  };
+
+  const finish = () => {
+    const state = runState(events);
+    const content = responseText(state.response);
+    const research = researchExtension(run.id, state);
+    if (!stream) {
+      if (!content) return openaiError(res, 500, research.errors.map((e: any) => e.error || e.message).join('; ') || 'run produced no answer');
+      return res.json({
+        id, object: 'chat.completion', created, model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: completionUsage(state),
+        research,
+      });
+    }
+    if (res.writableEnded || res.destroyed) return;
+    // 共識模式不串流，一次送出完整回答；Critic 修訂過的最終版本放在 research.revised_content
+    if (!streamed && content) chunk({ content });
+    const revised = streamed && content && content !== streamed ? { revised_content: content } : {};
+    if (!content) res.write(`data: ${JSON.stringify({ error: { message: 'run produced no answer', type: 'server_error', param: null, code: null } })}\n\n`);
+    chunk({}, 'stop', {
+      research: { ...research, ...revised },
+      ...(body.stream_options?.include_usage ? { usage: completionUsage(state) } : {}),
+    });
+    res.write('data: [DONE]\n\n');
     res.end();
+  };
+
+  const sub = await subscribeRun(run.id, 0, e => {
+    events.push(e);
+    if (stream && e.event === 'writer' && e.data?.chunk) {
+      streamed += e.data.chunk;
+      chunk({ content: e.data.chunk });
+    }
+    if (e.event === 'done') finish();
+  });
+  if (!sub) return openaiError(res, 500, 'run not found');
+
+  if (stream) {
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // for nginx
+    chunk({ role: 'assistant', content: '' });
   }
-});
+  // 心跳避免長時間的流程被中斷（SSE 註解行，OpenAI 客戶端會忽略）
+  const keepalive = stream ? setInterval(() => res.write(': keepalive\n\n'), 15000) : null;
+  // 呼叫端斷線：與 SSE 相同，超過寬限期無人重連即取消
+  res.on('close', () => {
+    if (keepalive) clearInterval(keepalive);
+    sub.unsubscribe();
+  });
+  sub.start();
+}));
 
 // 靜態檔托管（production 模式）
 if (process.env.NODE_ENV === 'production') {
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { EvalReport, Settings } from '../types.js';
+import { evalRegressions, formatEvalMarkdown, loadEvalSuite, runEvalSuite } from '../modules/eval.js';
+
+const USAGE = `Usage: npm run eval -- <suite.yaml|suite.jsonl> [options]
+
+  --preset <fast|balanced|thorough>  覆盖题组的 preset
+  --out <file>                       JSON 报告（默认 eval-report.json）
+  --markdown <file>                  Markdown 报告（默认与 --out 同名 .md）
+  --baseline <file>                  与之对比的基线 JSON 报告；有题目回归时以状态码 1 结束
+  --save-baseline                    把本次结果另存为 --baseline 指定的文件
+`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      preset: { type: 'string' },
+      out: { type: 'string', default: 'eval-report.json' },
+      markdown: { type: 'string' },
+      baseline: { type: 'string' },
+      'save-baseline': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+  const preset = values.preset as Settings['speedMode'] | undefined;
+  if (preset && !['fast', 'balanced', 'thorough'].includes(preset)) {
+    console.error(`[Eval] 未知的 preset: ${preset}`);
+    return 2;
+  }
+  if (values['save-baseline'] && !values.baseline) {
+    console.error('[Eval] --save-baseline 需要同时指定 --baseline');
+    return 2;
+  }
+
+  const suite = await loadEvalSuite(positionals[0]);
+  // 另存基线时不读取旧基线（文件可能还不存在）
+  const baseline: EvalReport | undefined = values.baseline && !values['save-baseline']
+    ? JSON.parse(await fsp.readFile(values.baseline, 'utf8'))
+    : undefined;
+
+  const report = await runEvalSuite(suite, {
+    preset,
+    onCase: (r, i, total) => console.log(`[Eval] (${i + 1}/${total}) ${r.id}: ${r.passed ? 'pass' : 'fail'}${r.error ? ` (${r.error})` : ''}`),
+  });
+
+  const markdownFile = values.markdown ?? values.out.replace(/\.json$/i, '') + '.md';
+  await fsp.mkdir(path.dirname(path.resolve(values.out)), { recursive: true });
+  await fsp.writeFile(values.out, JSON.stringify(report, null, 2), 'utf8');
+  await fsp.writeFile(markdownFile, formatEvalMarkdown(report, baseline), 'utf8');
+  if (values['save-baseline']) await fsp.writeFile(values.baseline!, JSON.stringify(report, null, 2), 'utf8');
+
+  const s = report.summary;
+  console.log(`[Eval] ${report.suite}: ${s.passed}/${s.cases} passed，报告 ${values.out}、${markdownFile}`);
+  if (!baseline) return 0;
+  const regressions = evalRegressions(report, baseline);
+  if (regressions.length > 0) {
+    console.log(`[Eval] 相对基线回归: ${regressions.join(', ')}`);
+    return 1;
+  }
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('[Eval] 执行失败:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+);
@@ -4,32 +4,144 @@
 export * from './types.js';
 
 // 配置
-export { CFG, AUTHORITY_DOMAINS } from './modules/config.js';
+export { CFG, AUTHORITY_DOMAINS, PipelineConfigManager } from './modules/config.js';
+export type { PipelineConfig } from './modules/config.js';
 
 // 工具函数
-export { TokenTracker, hasCJK, tryParseJSON, delay, langDirective } from './modules/utils.js';
+export { TokenTracker, hasCJK, detectLang, isCausalQuestion, tokenize, tryParseJSON, delay, langDirective } from './modules/utils.js';
 
 // 缓存和并行处理
 export { ValidationCache, ParallelProcessor } from './modules/cache.js';
 
+// LLM 提供者
+export {
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+  ScriptedProvider,
+  registerLLMProvider,
+  listLLMProviders,
+  createLLMProvider,
+  llmProviderFor,
+  llmProviderName,
+  isLLMAvailable
+} from './modules/llm-providers.js';
+export type { ScriptedRule } from './modules/llm-providers.js';
+
+// 录制 / 重放
+export { Cassette, CassetteLLMProvider, CassetteSearchProvider, getCassette, activeCassette, cassetteKey } from './modules/cassette.js';
+
 // 网络搜索
 export { WebSearch } from './modules/search.js';
+export { 
+  TavilyProvider, 
+  SearxngProvider, 
+  FixtureProvider, 
+  CorpusProvider, 
+  registerSearchProvider, 
+  listSearchProviders, 
+  createSearchProvider 
+} from './modules/search-providers.js';
+
+// 来源全文抓取
+export { PageFetcher, getPageFetcher, parseRobots, isPathAllowed, isPrivateAddress, htmlToText } from './modules/pages.js';
+export type { PageFetcherOptions } from './modules/pages.js';
+
+// 段落检索
+export { PassageIndex, chunkText, resolveRetrievalScorer } from './modules/retrieval.js';
+export type { RetrievalScorer, PassageSearchOptions } from './modules/retrieval.js';
+
+// 行内引用校验
+export { groundCitations, responseText } from './modules/grounding.js';
 
 // AI 代理
 export { 
   RouterAgent, 
   ResearcherAgent, 
   AnalystAgent, 
+  CausalAnalystAgent, 
+  HypothesisAgent, 
   WriterAgent, 
   FactCheckerAgent, 
-  CriticAgent 
+  CriticAgent,
+  NliJudgeAgent,
+  MemorizerAgent,
+  HistorySummarizerAgent
 } from './modules/agents.js';
+export type { PromptContext } from './modules/agents.js';
 
 // 可信度评估
 export { CredibilityEvaluator } from './modules/credibility.js';
+export { 
+  TfidfScorer, 
+  EmbeddingScorer, 
+  calibrateThresholds, 
+  registerSupportScorer, 
+  createSupportScorer 
+} from './modules/similarity.js';
+export type { SupportScorer, SupportScores, SupportThresholds, CalibrationExample } from './modules/similarity.js';
+export { ContradictionDetector } from './modules/contradiction.js';
+export type { NliLabel, NliJudgement, Relevance, LocalCheck, ContradictionJudge } from './modules/contradiction.js';
+
+// 学术引用
+export { CitationBuilder } from './modules/citations.js';
+
+// 数据质量
+export { DataQualityEvaluator } from './modules/data-quality.js';
+
+// 偏见分析
+export { BiasAnalyzer } from './modules/bias.js';
+
+// 统计检验
+export { 
+  mean, 
+  stdDev, 
+  binomialTest, 
+  oneSampleTTest, 
+  studentTTwoSidedP, 
+  tCriticalValue, 
+  extractNumbers 
+} from './modules/stats.js';
+export type { NumericValue, TestResult } from './modules/stats.js';
+
+// 多模型共识
+export { 
+  ConsensusBuilder, 
+  parseConsensusModels, 
+  textSimilarity, 
+  factCheckSimilarity 
+} from './modules/consensus.js';
+export type { ConsensusVariant } from './modules/consensus.js';
+
+// 跨会话记忆
+export { MemoryManager, getMemoryManager, formatMemoryBrief, isValidMemoryScope } from './modules/memory.js';
+export type { MemoryRecord, MemorySearchResult } from './modules/memory.js';
+
+// 对话串
+export { ThreadStore, getThreadStore, formatThreadHistory, titleFromQuestion, isValidThreadId } from './modules/threads.js';
+
+// 流程执行记录（断线重连补送）
+export { RunStore, getRunStore, runState, isValidRunId, formatRunEventId, parseRunEventId } from './modules/runs.js';
+export type { RunListener, RunSubscription } from './modules/runs.js';
+
+// 黄金问题评测
+export {
+  parseEvalSuite,
+  loadEvalSuite,
+  runEvalSuite,
+  scoreEvalCase,
+  summarizeEval,
+  formatEvalMarkdown,
+  evalRegressions
+} from './modules/eval.js';
+export type { EvalRunOptions } from './modules/eval.js';
 
 // 主流程
-export { ResearchPipeline } from './modules/pipeline.js';
+export { ResearchPipeline, PIPELINE_PRESETS } from './modules/pipeline.js';
+export type { PipelineState, ResearchPipelineOptions } from './modules/pipeline.js';
+export { StageGraph } from './modules/stage-graph.js';
+export type { PipelineStage, StageRun, StageGraphResult, StageGraphOptions } from './modules/stage-graph.js';
+export { BudgetScheduler, MIN_SLICE_RATIO } from './modules/budget.js';
+export type { BudgetCut, BudgetReport, BudgetSlice } from './modules/budget.js';
 
 // 默认导出主流程类
 import { ResearchPipeline } from './modules/pipeline.js';
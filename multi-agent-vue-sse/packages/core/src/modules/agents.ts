@@ -1,18 +1,55 @@
-import OpenAI from 'openai';
-import { CFG } from './config.js';
-import { langDirective, tryParseJSON, TokenTracker, compressContent, smartTruncate } from './utils.js';
-import { Source, Fact, RouterPlan, FactCheckReport, Emit } from '../types.js';
+import { CFG, TOKEN_OPTIMIZATION } from './config.js';
+import { llmProviderFor } from './llm-providers.js';
+import { langDirective, tryParseJSON, TokenTracker, compressContent, smartTruncate, isCausalQuestion, tokenize } from './utils.js';
+import {
+  Source, Fact, RouterPlan, FactCheckReport, Emit, ModelVote, ModelConsensus, CausalChain, CausalAnalysis,
+  CrossValidationResult, HypothesisTest, HypothesisReport, ThreadTurn, CritiqueReport, LLMProvider, LLMRole,
+  SourcePassage
+} from '../types.js';
+import { binomialTest, oneSampleTTest, tCriticalValue, extractNumbers, mean } from './stats.js';
+import { ConsensusBuilder, ConsensusVariant, parseConsensusModels, factCheckSimilarity } from './consensus.js';
+import { ContradictionJudge, NliJudgement, NliLabel } from './contradiction.js';
+
+// 提示詞附加上下文：對話串歷史摘要、跨會話記憶與使用者附加的文件
+export interface PromptContext {
+  history?: string;
+  memory?: string;
+  documents?: string;
+}
+
+// 將上下文附加到提示詞（D: 附加文件，H: 本對話先前輪次，M: 長期記憶）
+function withContext(prompt: string, context: PromptContext): string {
+  let out = prompt;
+  if (context.documents) out += `
+D: ${smartTruncate(context.documents, 1500)}`;
+  if (context.history) out += `
+H: ${smartTruncate(context.history, 500)}`;
+  if (context.memory) out += `
+M: ${smartTruncate(context.memory, 300)}`;
+  return out;
+}
+
+// 模型回傳的 JSON 陣列項目
+type JsonItem<K extends string = never> = Record<string, unknown> & Record<K, string>;
 
-// AI 代理基類
+// 項目須為物件，且指定欄位為非空字串
+function isJsonItem<K extends string>(value: unknown, ...keys: K[]): value is JsonItem<K> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const item = value as Record<string, unknown>;
+  return keys.every(k => typeof item[k] === 'string' && (item[k] as string).trim() !== '');
+}
+
+// AI 代理基類；LLM 提供者依角色由 CFG 選擇
 abstract class BaseAgent {
-  protected openai: OpenAI;
+  protected llm: LLMProvider;
   protected model: string;
   protected temperature: number;
   protected maxTokens?: number;
   protected tokenTracker?: TokenTracker;
+  protected signal?: AbortSignal;
 
-  constructor(model: string, temperature: number, maxTokens?: number) {
-    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  constructor(role: LLMRole, model: string, temperature: number, maxTokens?: number) {
+    this.llm = llmProviderFor(role);
     this.model = model;
     this.temperature = temperature;
     this.maxTokens = maxTokens;
@@ -23,6 +60,20 @@ abstract class BaseAgent {
     this.tokenTracker = tracker;
   }
 
+  // 替換 LLM 提供者（如測試時注入 ScriptedProvider）
+  setLLMProvider(provider: LLMProvider) {
+    this.llm = provider;
+  }
+
+  getLLMProvider(): LLMProvider {
+    return this.llm;
+  }
+
+  // 設置中止信號（時間片到期或客戶端斷線時中止進行中的請求）
+  setAbortSignal(signal?: AbortSignal) {
+    this.signal = signal;
+  }
+
   // 智能內容選擇器
   protected selectRelevantContent<T extends { statement?: string; title?: string; snippet?: string }>(
     items: T[], 
@@ -44,28 +95,36 @@ abstract class BaseAgent {
     }));
   }
 
-  protected async callAPI(prompt: string, systemPrompt?: string): Promise<string> {
-    try {
-      const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
-      if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-      }
-      messages.push({ role: 'user', content: prompt });
+  private buildMessages(prompt: string, systemPrompt?: string) {
+    const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+    messages.push({ role: 'user', content: prompt });
 
-      // 記錄prompt tokens
-      if (this.tokenTracker) {
-        const promptText = messages.map(m => m.content).join('\n');
-        this.tokenTracker.addPromptText(promptText);
-      }
+    // 記錄prompt tokens
+    if (this.tokenTracker) {
+      const promptText = messages.map(m => m.content).join('\n');
+      this.tokenTracker.addPromptText(promptText);
+    }
+    return messages;
+  }
 
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+  protected async callAPI(
+    prompt: string,
+    systemPrompt?: string,
+    overrides: { model?: string; temperature?: number } = {}
+  ): Promise<string> {
+    try {
+      const messages = this.buildMessages(prompt, systemPrompt);
+
+      const { text: completionText } = await this.llm.chat({
+        model: overrides.model ?? this.model,
         messages,
-        temperature: this.temperature,
-        max_tokens: this.maxTokens,
+        temperature: overrides.temperature ?? this.temperature,
+        maxTokens: this.maxTokens,
+        signal: this.signal,
       });
-
-      const completionText = response.choices[0]?.message?.content || '';
       
       // 記錄completion tokens
       if (this.tokenTracker) {
@@ -74,26 +133,156 @@ abstract class BaseAgent {
 
       return completionText;
     } catch (error) {
-      console.error(`[${this.constructor.name}] API 調用失敗:`, error);
+      if (this.signal?.aborted) {
+        console.warn(`[${this.constructor.name}] API 調用已中止`);
+      } else {
+        console.error(`[${this.constructor.name}] API 調用失敗:`, error);
+      }
+      throw error;
+    }
+  }
+
+  // 串流版本：每收到一段增量就回呼 onDelta，結束後回傳完整文字
+  protected async callAPIStream(
+    prompt: string,
+    systemPrompt: string | undefined,
+    onDelta: (delta: string) => void | Promise<void>,
+    overrides: { model?: string; temperature?: number } = {}
+  ): Promise<string> {
+    let completionText = '';
+    try {
+      const messages = this.buildMessages(prompt, systemPrompt);
+
+      await this.llm.stream({
+        model: overrides.model ?? this.model,
+        messages,
+        temperature: overrides.temperature ?? this.temperature,
+        maxTokens: this.maxTokens,
+        signal: this.signal,
+      }, async delta => {
+        completionText += delta;
+        await onDelta(delta);
+      });
+      return completionText;
+    } catch (error) {
+      // 被中止時保留已收到的部分
+      if (this.signal?.aborted && completionText) {
+        console.warn(`[${this.constructor.name}] 串流被中止，保留已輸出的 ${completionText.length} 字`);
+        return completionText;
+      }
+      console.error(`[${this.constructor.name}] 串流 API 調用失敗:`, error);
       throw error;
+    } finally {
+      // 以完整文字計算 completion tokens（逐段計算會因分詞邊界而偏高）；中途失敗時也計入已收到的部分
+      if (this.tokenTracker && completionText) {
+        this.tokenTracker.addCompletionText(completionText);
+      }
     }
   }
 
+  // 將同一提示詞分發給多個模型 / 溫度，收集投票
+  protected async collectVotes(
+    prompt: string,
+    systemPrompt: string,
+    variants: ConsensusVariant[] = parseConsensusModels(CFG.CONSENSUS_MODELS)
+  ): Promise<ModelVote[]> {
+    const results = await Promise.allSettled(variants.map(async v => {
+      const temperature = v.temperature ?? this.temperature;
+      const start = Date.now();
+      const response = await this.callAPI(prompt, systemPrompt, { model: v.model, temperature });
+      return {
+        model: v.model,
+        response,
+        confidence: 0,
+        reasoning: '',
+        timestamp: start,
+        metadata: {
+          modelVersion: v.model,
+          temperature,
+          maxTokens: this.maxTokens ?? 0,
+          responseTime: Date.now() - start,
+        },
+      } satisfies ModelVote;
+    }));
+
+    const votes: ModelVote[] = [];
+    results.forEach((r, i) => {
+      if (r.status === 'fulfilled') votes.push(r.value);
+      else console.warn(`[${this.constructor.name}] 模型 ${variants[i].model} 投票失敗:`, r.reason);
+    });
+    if (votes.length === 0) {
+      throw new Error('All consensus models failed');
+    }
+    return votes;
+  }
+
+}
+
+// 記憶代理 - 從問答中抽取值得長期保存的資訊
+export class MemorizerAgent extends BaseAgent {
+  constructor() {
+    super('research', CFG.RESEARCH_MODEL, 0);
+  }
+
+  async extract(question: string, answer: string): Promise<{ facts: string[]; entities: string[]; keywords: string[] }> {
+    const systemPrompt = `Long-lived memory: {"facts":["user preferences or durable facts"],"entities":[""],"keywords":[""]}`;
+
+    const prompt = `Q: ${smartTruncate(question, 200)}
+A: ${smartTruncate(answer, 600)}`;
+
+    const response = await this.callAPI(prompt, systemPrompt);
+    const parsedResponse = tryParseJSON(response);
+    const strings = (v: unknown, max: number) =>
+      (Array.isArray(v) ? v : []).filter((s): s is string => typeof s === 'string' && !!s.trim()).slice(0, max);
+    if (!parsedResponse) {
+      console.warn('[MemorizerAgent] Failed to parse JSON response, storing raw text only');
+    }
+    return {
+      facts: strings(parsedResponse?.facts, 8),
+      entities: strings(parsedResponse?.entities, 12),
+      keywords: strings(parsedResponse?.keywords, 20),
+    };
+  }
+}
+
+// 對話摘要代理 - 將較早的輪次壓縮為滾動摘要
+export class HistorySummarizerAgent extends BaseAgent {
+  constructor() {
+    super('router', CFG.ROUTER_MODEL, 0);
+  }
+
+  async summarize(previousSummary: string, turns: ThreadTurn[]): Promise<string> {
+    const systemPrompt = `Update the conversation summary (<=120 words). Keep user goals, constraints and conclusions; drop details.`;
 
+    const turnsText = turns
+      .map(t => `U: ${smartTruncate(t.question, 160)}
+A: ${smartTruncate(t.answer, 240)}`)
+      .join('\n');
+    const prompt = previousSummary
+      ? `S: ${previousSummary}
+${turnsText}`
+      : turnsText;
+
+    return (await this.callAPI(prompt, systemPrompt)).trim();
+  }
 }
 
+// Router 可規劃的步驟；write 必定執行
+const PLAN_STEPS = ['research', 'analyze', 'causal', 'write', 'factcheck', 'critique'];
+const DEFAULT_STEPS = ['research', 'analyze', 'write', 'factcheck', 'critique'];
+
 // 路由器代理 - 簡化提示詞
 export class RouterAgent extends BaseAgent {
   constructor() {
-    super(CFG.ROUTER_MODEL, 0.1);
+    super('router', CFG.ROUTER_MODEL, 0.1);
   }
 
-  async plan(question: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<RouterPlan> {
+  async plan(question: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko', context: PromptContext = {}): Promise<RouterPlan> {
     // 極簡系統提示詞
-    const systemPrompt = `Plan: {"useWeb":bool,"topic":"general"|"news","steps":[],"maxIterations":num}`;
+    const systemPrompt = `Plan: {"useWeb":bool,"topic":"general"|"news","steps":["research"|"analyze"|"causal"|"write"|"factcheck"|"critique"],"maxIterations":1-${CFG.MAX_ITERATIONS},"subQuestions":["≤3"]}`;
 
-    // 簡化問題描述，移除語言指令
-    const prompt = `Q: ${question}`;
+    // 簡化問題描述，移除語言指令；追問時附上對話歷史與記憶
+    const prompt = withContext(`Q: ${question}`, context);
 
     const response = await this.callAPI(prompt, systemPrompt);
     const parsedResponse = tryParseJSON(response);
@@ -102,8 +291,8 @@ export class RouterAgent extends BaseAgent {
       return {
         useWeb: true,
         topic: 'general' as const,
-        steps: ['research', 'analyze', 'write'],
-        maxIterations: 3
+        steps: this.withCausalStep([...DEFAULT_STEPS], question),
+        maxIterations: CFG.MAX_ITERATIONS
       };
     }
     const plan = parsedResponse as RouterPlan;
@@ -111,19 +300,122 @@ export class RouterAgent extends BaseAgent {
     return {
       useWeb: plan.useWeb ?? true,
       topic: plan.topic ?? 'general',
-      steps: plan.steps ?? ['research', 'analyze', 'write'],
-      maxIterations: plan.maxIterations ?? 3
+      steps: this.withCausalStep(this.normalizeSteps(plan.steps), question),
+      maxIterations: Math.min(CFG.MAX_ITERATIONS, Math.max(1, Math.round(Number(plan.maxIterations) || 1))),
+      subQuestions: this.normalizeSubQuestions(plan.subQuestions, question)
     };
   }
+
+  // 子問題最多 3 個，去掉空白與和原問題相同者
+  private normalizeSubQuestions(subQuestions: unknown, question: string): string[] {
+    if (!Array.isArray(subQuestions)) return [];
+    const list = subQuestions
+      .filter((q): q is string => typeof q === 'string')
+      .map(q => q.trim())
+      .filter(q => q && q !== question.trim());
+    return [...new Set(list)].slice(0, 3);
+  }
+
+  // 過濾未知步驟並確保包含 write
+  private normalizeSteps(steps: unknown): string[] {
+    const valid = Array.isArray(steps) ? steps.filter(s => PLAN_STEPS.includes(s)) : [];
+    const next = valid.length ? [...new Set(valid)] : [...DEFAULT_STEPS];
+    if (!next.includes('write')) {
+      const at = next.indexOf('factcheck');
+      next.splice(at >= 0 ? at : next.length, 0, 'write');
+    }
+    return next;
+  }
+
+  // 「為什麼 / 什麼導致」類問題：在分析之後排入因果分析
+  private withCausalStep(steps: string[], question: string): string[] {
+    if (steps.includes('causal') || !isCausalQuestion(question)) return steps;
+    const at = steps.indexOf('analyze');
+    const next = [...steps];
+    next.splice(at >= 0 ? at + 1 : next.length, 0, 'causal');
+    return next;
+  }
 }
 
+// 段落 ID 無效時，引文的詞至少要有此比例出現在段落中才視為出自該段
+const MIN_PASSAGE_OVERLAP = 0.5;
+
 // 研究員代理 - 智能內容壓縮
 export class ResearcherAgent extends BaseAgent {
   constructor() {
-    super(CFG.RESEARCH_MODEL, CFG.RESEARCH_TEMPERATURE);
+    super('research', CFG.RESEARCH_MODEL, CFG.RESEARCH_TEMPERATURE);
+  }
+
+  async extractFacts(
+    sources: Source[],
+    question: string,
+    lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko',
+    passages: SourcePassage[] = [],
+    subQuestions: string[] = []
+  ): Promise<Fact[]> {
+    const { prompt, systemPrompt } = passages.length > 0
+      ? this.buildPassagePrompt(question, passages, subQuestions)
+      : this.buildSnippetPrompt(sources, question);
+
+    const response = await this.callAPI(prompt, systemPrompt);
+    const parsedResponse = tryParseJSON(response);
+    if (!parsedResponse || !parsedResponse.facts) {
+      console.warn('[ResearcherAgent] Failed to parse JSON response or missing facts array');
+      return [];
+    }
+    const facts: Array<Fact & { passage?: string }> = Array.isArray(parsedResponse.facts) ? parsedResponse.facts : [];
+    if (passages.length === 0) return facts;
+    const linked = facts.map(f => this.linkPassage(f, passages)).filter((f): f is Fact => f !== null);
+    if (linked.length < facts.length) {
+      console.log(`[ResearcherAgent] 捨棄 ${facts.length - linked.length} 個對應不到段落的事實`);
+    }
+    return linked;
+  }
+
+  // 檢索到的段落附上 ID，要求每個事實標明出處段落並引用原句
+  private buildPassagePrompt(question: string, passages: SourcePassage[], subQuestions: string[]) {
+    const systemPrompt = `Extract from passages: {"facts":[{"statement":"","passage":"S1-1","evidence":"quote","published":""}]}`;
+    const passageText = passages
+      .map(p => `[${p.id}] ${compressContent(p.title || p.url, 40)}\n${p.text}`)
+      .join('\n');
+    const prompt = `Q: ${question}${subQuestions.length ? `\nSub: ${subQuestions.join(' | ')}` : ''}
+P:
+${passageText}`;
+    return { prompt, systemPrompt };
+  }
+
+  // 以段落 ID 補上來源 URL 與日期；ID 無效時改找引文最接近的段落，仍找不到則捨棄
+  private linkPassage(fact: Fact & { passage?: string }, passages: SourcePassage[]): Fact | null {
+    const { passage: id, ...rest } = fact;
+    const passage = passages.find(p => p.id === String(id ?? '').replace(/^\[|\]$/g, ''))
+      ?? this.closestPassage(rest, passages);
+    if (!passage) return null;
+    return {
+      ...rest,
+      source: passage.url,
+      published: rest.published || passage.published,
+      passageId: passage.id,
+    };
+  }
+
+  // 以引文（沒有時用陳述）的詞出現在段落中的比例挑選段落
+  private closestPassage(fact: Fact, passages: SourcePassage[]): SourcePassage | undefined {
+    const terms = [...new Set(tokenize(fact.evidence || fact.statement || ''))];
+    if (terms.length === 0) return undefined;
+    let best: SourcePassage | undefined;
+    let bestScore = 0;
+    for (const passage of passages) {
+      const tokens = new Set(tokenize(passage.text));
+      const score = terms.filter(t => tokens.has(t)).length / terms.length;
+      if (score > bestScore) {
+        best = passage;
+        bestScore = score;
+      }
+    }
+    return bestScore >= MIN_PASSAGE_OVERLAP ? best : undefined;
   }
 
-  async extractFacts(sources: Source[], question: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<Fact[]> {
+  private buildSnippetPrompt(sources: Source[], question: string) {
     // 極簡系統提示詞
     const systemPrompt = `Extract: {"facts":[{"statement":"","source":"","evidence":"","published":""}]}`;
 
@@ -140,21 +432,14 @@ export class ResearcherAgent extends BaseAgent {
     // 簡化提示詞，移除語言指令
     const prompt = `Q: ${question}
 S: ${sourcesText}`;
-
-    const response = await this.callAPI(prompt, systemPrompt);
-    const parsedResponse = tryParseJSON(response);
-    if (!parsedResponse || !parsedResponse.facts) {
-      console.warn('[ResearcherAgent] Failed to parse JSON response or missing facts array');
-      return [];
-    }
-    return parsedResponse.facts || [];
+    return { prompt, systemPrompt };
   }
 }
 
 // 分析師代理 - 極簡分析
 export class AnalystAgent extends BaseAgent {
   constructor() {
-    super(CFG.RESEARCH_MODEL, CFG.ANALYST_TEMPERATURE);
+    super('analyst', CFG.RESEARCH_MODEL, CFG.ANALYST_TEMPERATURE);
   }
 
   async analyze(facts: Fact[], question: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<string> {
@@ -173,49 +458,511 @@ F: ${factsText}`;
   }
 }
 
+// 因果分析代理 - 從事實建立因果鏈
+export class CausalAnalystAgent extends BaseAgent {
+  private static readonly STRENGTH_WEIGHT: Record<CausalChain['strength'], number> = { strong: 1, moderate: 0.66, weak: 0.33 };
+
+  constructor() {
+    super('analyst', CFG.RESEARCH_MODEL, CFG.ANALYST_TEMPERATURE);
+  }
+
+  async analyze(facts: Fact[], question: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<CausalAnalysis> {
+    if (facts.length === 0) {
+      return this.rollUp([], facts, new Set());
+    }
+
+    // 證據以事實編號引用，方便回溯
+    const systemPrompt = `Causal chains, cite fact numbers: {"chains":[{"cause":"","effect":"","mechanism":"","evidence":[1],"strength":"strong"|"moderate"|"weak","confidence":0-1,"timeLag":days|null,"confoundingFactors":[],"alternativeExplanations":[],"counterEvidence":[2]}]}`;
+
+    const topFacts = facts.slice(0, 8);
+    const factsText = topFacts.map((f, i) => `${i + 1}. ${smartTruncate(f.statement, 120)}`).join('\n');
+
+    const prompt = `Q: ${question}
+F:
+${factsText}`;
+
+    const response = await this.callAPI(prompt, systemPrompt);
+    const parsedResponse = tryParseJSON(response);
+    if (!parsedResponse || !Array.isArray(parsedResponse.chains)) {
+      console.warn('[CausalAnalystAgent] Failed to parse JSON response or missing chains array');
+      return this.rollUp([], facts, new Set());
+    }
+
+    const citedSources = new Set<string>();
+    const rawChains: unknown[] = parsedResponse.chains;
+    const chains = rawChains
+      .filter((c): c is JsonItem<'cause' | 'effect'> => isJsonItem(c, 'cause', 'effect'))
+      .map(c => this.normalizeChain(c, topFacts, citedSources));
+    return this.rollUp(chains, facts, citedSources);
+  }
+
+  // 將事實編號換成「陳述（來源）」，並依證據多寡校正強度
+  private normalizeChain(raw: JsonItem<'cause' | 'effect'>, facts: Fact[], citedSources: Set<string>): CausalChain {
+    const cite = (refs: unknown): string[] => (Array.isArray(refs) ? refs : [])
+      .map(r => facts[Number(r) - 1])
+      .filter((f): f is Fact => !!f)
+      .map(f => {
+        citedSources.add(f.source);
+        return `${f.statement} (${f.source})`;
+      });
+    const strings = (v: unknown): string[] => (Array.isArray(v) ? v.filter(x => typeof x === 'string' && x.trim()) : []);
+
+    const evidence = cite(raw.evidence);
+    const counterEvidence = cite(raw.counterEvidence);
+    let strength: CausalChain['strength'] = (['strong', 'moderate', 'weak'] as const).find(s => s === raw.strength) ?? 'weak';
+    let confidence = Math.min(1, Math.max(0, Number(raw.confidence) || 0.5));
+
+    // 沒有引用任何事實的因果鏈只能算弱推論
+    if (evidence.length === 0) {
+      strength = 'weak';
+      confidence = Math.min(confidence, 0.3);
+    } else if (counterEvidence.length > evidence.length && strength === 'strong') {
+      strength = 'moderate';
+    }
+
+    return {
+      cause: raw.cause.trim(),
+      effect: raw.effect.trim(),
+      mechanism: typeof raw.mechanism === 'string' ? raw.mechanism : '',
+      evidence,
+      strength,
+      confidence: Math.round(confidence * 100) / 100,
+      timeLag: Number.isFinite(Number(raw.timeLag)) && raw.timeLag !== null ? Number(raw.timeLag) : undefined,
+      confoundingFactors: strings(raw.confoundingFactors),
+      alternativeExplanations: strings(raw.alternativeExplanations),
+      counterEvidence,
+    };
+  }
+
+  // 彙總因果鏈為整體評估（不經模型，結果可重現）
+  private rollUp(chains: CausalChain[], facts: Fact[], citedSources: Set<string>): CausalAnalysis {
+    const weights = CausalAnalystAgent.STRENGTH_WEIGHT;
+    const overallCausality = chains.length
+      ? chains.reduce((sum, c) => sum + c.confidence * weights[c.strength], 0) / chains.length
+      : 0;
+    const causalStrength: CausalAnalysis['causalStrength'] =
+      overallCausality >= 0.6 ? 'strong' : overallCausality >= 0.3 ? 'moderate' : 'weak';
+
+    const ranked = [...chains].sort((a, b) => b.confidence * weights[b.strength] - a.confidence * weights[a.strength]);
+    const primaryCauses = [...new Set(ranked.map(c => c.cause))].slice(0, 3);
+    const keyEffects = [...new Set(ranked.map(c => c.effect))].slice(0, 3);
+
+    const limitations: string[] = [];
+    const recommendations: string[] = [];
+    if (chains.length === 0) {
+      limitations.push(facts.length === 0 ? '沒有可用事實，無法建立因果鏈' : '未能從現有事實中辨識出因果關係');
+      recommendations.push('補充包含時間順序或機制說明的來源');
+    }
+    const unsupported = chains.filter(c => c.evidence.length === 0).length;
+    if (unsupported > 0) {
+      limitations.push(`${unsupported} 條因果鏈未引用任何事實，屬推論`);
+    }
+    if (chains.length > 0 && citedSources.size <= 1) {
+      limitations.push('證據來自單一來源，可能只是相關而非因果');
+      recommendations.push('尋找獨立來源驗證因果機制');
+    }
+    if (chains.some(c => c.confoundingFactors.length > 0)) {
+      limitations.push('存在未排除的混雜因素');
+      recommendations.push('檢查混雜因素是否同時影響原因與結果');
+    }
+    if (chains.some(c => c.counterEvidence.length > 0)) {
+      limitations.push('部分事實與因果推論相矛盾');
+    }
+    if (chains.length > 0 && chains.every(c => c.timeLag === undefined)) {
+      recommendations.push('確認原因發生在結果之前（時間順序）');
+    }
+
+    return {
+      chains,
+      overallCausality: Math.round(overallCausality * 100) / 100,
+      primaryCauses,
+      keyEffects,
+      causalStrength,
+      limitations,
+      recommendations,
+    };
+  }
+}
+
+// 假設檢驗代理 - 本地統計檢驗 + 爭議主張的替代假設
+export class HypothesisAgent extends BaseAgent {
+  private static readonly ALPHA = 0.05;
+
+  constructor() {
+    super('analyst', CFG.RESEARCH_MODEL, CFG.ANALYST_TEMPERATURE);
+  }
+
+  async test(results: CrossValidationResult[], question: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<HypothesisReport> {
+    const tests: HypothesisTest[] = [];
+    for (const r of results) {
+      tests.push(this.comparativeTest(r));
+      const statistical = this.statisticalTest(r);
+      if (statistical) tests.push(statistical);
+    }
+
+    // 只有存在爭議的主張才需要模型提出替代假設
+    const disputed = results.filter(r => r.consensus !== 'strong');
+    if (disputed.length > 0) {
+      try {
+        tests.push(...await this.logicalTests(disputed, question));
+      } catch (error) {
+        console.warn('[HypothesisAgent] 替代假設生成失敗，僅保留本地檢驗:', error);
+      }
+    }
+
+    return this.summarize(tests);
+  }
+
+  // 比較檢驗：支持 vs 矛盾來源數的二項檢驗（H0：兩者機率相同）
+  private comparativeTest(r: CrossValidationResult): HypothesisTest {
+    const support = r.supportingSources.length;
+    const contra = r.contradictingSources.length;
+    const n = support + contra;
+    const result = binomialTest(support, n);
+    const significant = n > 0 && result.pValue < HypothesisAgent.ALPHA;
+
+    let conclusion: HypothesisTest['conclusion'];
+    if (n === 0) conclusion = 'inconclusive';
+    else if (significant) conclusion = support > contra ? 'supported' : 'rejected';
+    else conclusion = support > contra ? 'partially_supported' : 'inconclusive';
+
+    const limitations = ['以來源數量計票，未考慮來源之間的相依性'];
+    if (n < 5) limitations.push(`樣本數僅 ${n}，檢定力不足`);
+
+    return {
+      hypothesis: r.claim,
+      testMethod: 'comparative',
+      evidence: [
+        ...r.supportingSources.map(s => `+ ${s.title || s.url}`),
+        ...r.contradictingSources.map(s => `- ${s.title || s.url}`),
+      ],
+      conclusion,
+      confidence: Math.round((n === 0 ? 0 : significant ? 1 - result.pValue : 0.5) * 100) / 100,
+      pValue: Math.round(result.pValue * 10000) / 10000,
+      effectSize: Math.round(result.effectSize * 100) / 100,
+      sampleSize: n,
+      testStatistic: support,
+      reasoning: `${support} 個來源支持、${contra} 個來源矛盾（二項檢驗 p=${result.pValue.toFixed(3)}）`,
+      limitations,
+    };
+  }
+
+  // 統計檢驗：主張中的數值與來源報告的數值是否一致（單樣本 t 檢驗）
+  private statisticalTest(r: CrossValidationResult): HypothesisTest | null {
+    const claimed = extractNumbers(r.claim)[0];
+    if (!claimed) return null;
+
+    const related = [...r.supportingSources, ...r.contradictingSources];
+    const observed = related
+      .flatMap(s => extractNumbers(`${s.title || ''} ${s.snippet || ''}`).map(v => ({ ...v, source: s })))
+      .filter(v => v.unit === claimed.unit);
+    if (observed.length < 2) return null;
+
+    const values = observed.map(v => v.value);
+    const result = oneSampleTTest(values, claimed.value);
+    const df = values.length - 1;
+    const small = Math.abs(result.effectSize) < 0.2;
+
+    let conclusion: HypothesisTest['conclusion'];
+    if (result.pValue < HypothesisAgent.ALPHA && !small) conclusion = 'rejected';
+    else if (small) conclusion = 'supported';
+    else conclusion = 'partially_supported';
+
+    return {
+      hypothesis: `${r.claim}（數值 ${claimed.raw}）`,
+      testMethod: 'statistical',
+      evidence: observed.slice(0, 8).map(v => `${v.raw} — ${v.source.title || v.source.url}`),
+      conclusion,
+      confidence: Math.round(Math.min(1, values.length / 5) * (conclusion === 'partially_supported' ? 0.5 : 0.9) * 100) / 100,
+      pValue: Math.round(result.pValue * 10000) / 10000,
+      effectSize: Number.isFinite(result.effectSize) ? Math.round(result.effectSize * 100) / 100 : undefined,
+      sampleSize: values.length,
+      testStatistic: Number.isFinite(result.statistic) ? Math.round(result.statistic * 100) / 100 : undefined,
+      criticalValue: Math.round(tCriticalValue(df, HypothesisAgent.ALPHA) * 100) / 100,
+      reasoning: `來源數值平均 ${mean(values).toFixed(2)}${claimed.unit}，主張為 ${claimed.value}${claimed.unit}`,
+      limitations: ['數值以出現順序抽取，可能混入不同口徑的數字'],
+    };
+  }
+
+  // 邏輯檢驗：由模型為爭議主張提出替代假設並評估
+  private async logicalTests(disputed: CrossValidationResult[], question: string): Promise<HypothesisTest[]> {
+    const systemPrompt = `Alternative hypotheses for disputed claims, cite source numbers: {"hypotheses":[{"hypothesis":"","conclusion":"supported"|"rejected"|"inconclusive"|"partially_supported","confidence":0-1,"reasoning":"","evidence":[1]}]}`;
+
+    const sources = [...new Map(
+      disputed.flatMap(r => [...r.supportingSources, ...r.contradictingSources]).map(s => [s.url, s])
+    ).values()].slice(0, 6);
+    const claimsText = disputed.slice(0, 3).map((r, i) => `${i + 1}. ${smartTruncate(r.claim, 120)}`).join('\n');
+    const sourcesText = sources.map((s, i) => `${i + 1}. ${compressContent(s.title || s.url, 30)}: ${compressContent(s.snippet || '', 60)}`).join('\n');
+
+    const prompt = `Q: ${question}
+C:
+${claimsText}
+S:
+${sourcesText}`;
+
+    const response = await this.callAPI(prompt, systemPrompt);
+    const parsedResponse = tryParseJSON(response);
+    if (!parsedResponse || !Array.isArray(parsedResponse.hypotheses)) {
+      console.warn('[HypothesisAgent] Failed to parse JSON response or missing hypotheses array');
+      return [];
+    }
+
+    const conclusions = ['supported', 'rejected', 'inconclusive', 'partially_supported'] as const;
+    const hypotheses: unknown[] = parsedResponse.hypotheses;
+    return hypotheses
+      .filter((h): h is JsonItem<'hypothesis'> => isJsonItem(h, 'hypothesis'))
+      .map(h => {
+        const refs: unknown[] = Array.isArray(h.evidence) ? h.evidence : [];
+        const evidence = refs
+          .map(n => sources[Number(n) - 1])
+          .filter((s): s is Source => !!s)
+          .map(s => s.title || s.url);
+        return {
+          hypothesis: h.hypothesis.trim(),
+          testMethod: 'logical' as const,
+          evidence,
+          conclusion: conclusions.find(c => c === h.conclusion) ?? 'inconclusive',
+          // 沒有引用來源的推論降低信心
+          confidence: Math.round(Math.min(evidence.length ? 1 : 0.4, Math.max(0, Number(h.confidence) || 0.5)) * 100) / 100,
+          reasoning: typeof h.reasoning === 'string' ? h.reasoning : '',
+          limitations: ['由模型推理產生，未經統計檢驗'],
+        };
+      });
+  }
+
+  private summarize(tests: HypothesisTest[]): HypothesisReport {
+    const count = (c: HypothesisTest['conclusion']) => tests.filter(t => t.conclusion === c).length;
+    const supported = count('supported') + count('partially_supported');
+    const rejected = count('rejected');
+    const inconclusive = count('inconclusive');
+
+    const confidenceLevel = tests.length
+      ? Math.round((tests.reduce((s, t) => s + t.confidence, 0) / tests.length) * 100) / 100
+      : 0;
+
+    const overallConclusion = tests.length === 0
+      ? '沒有可檢驗的假設'
+      : `共 ${tests.length} 項檢驗：${supported} 項支持、${rejected} 項否定、${inconclusive} 項無定論`;
+
+    const recommendations: string[] = [];
+    if (rejected > 0) recommendations.push('回答中被否定的主張應修正或加註爭議');
+    if (inconclusive > 0) recommendations.push('補充獨立來源以釐清無定論的主張');
+    if (tests.some(t => t.testMethod === 'comparative' && (t.sampleSize ?? 0) < 5)) {
+      recommendations.push('來源數量偏少，檢驗結果僅供參考');
+    }
+
+    return { tests, overallConclusion, confidenceLevel, recommendations };
+  }
+}
+
+// 蘊含判定代理 - 本地矛盾檢測無法確定時的裁判
+export class NliJudgeAgent extends BaseAgent implements ContradictionJudge {
+  constructor() {
+    super('judge', CFG.NLI_MODEL, 0);
+  }
+
+  async judge(claim: string, passages: string[]): Promise<NliJudgement[]> {
+    const systemPrompt = `NLI: does each passage entail, contradict or not address the claim? For contradiction quote the conflicting words verbatim from the passage as span: {"results":[{"id":1,"label":"entailment"|"neutral"|"contradiction","type":"number"|"date"|"negation"|"semantic","span":"","confidence":0-1}]}`;
+
+    const passagesText = passages.map((p, i) => `${i + 1}. ${smartTruncate(p.replace(/\s+/g, ' '), 400)}`).join('\n');
+    const prompt = `C: ${smartTruncate(claim, 200)}
+P:
+${passagesText}`;
+
+    const response = await this.callAPI(prompt, systemPrompt);
+    const parsedResponse = tryParseJSON(response);
+    if (!parsedResponse || !Array.isArray(parsedResponse.results)) {
+      throw new Error('NLI judge returned no results array');
+    }
+
+    const labels: NliLabel[] = ['entailment', 'neutral', 'contradiction'];
+    const types = ['number', 'date', 'negation', 'semantic'] as const;
+    const judgements: NliJudgement[] = [];
+    const results: unknown[] = parsedResponse.results;
+    for (const r of results) {
+      if (!isJsonItem(r)) continue;
+      const index = Number(r.id) - 1;
+      const label = labels.find(l => l === r.label);
+      if (!(index >= 0 && index < passages.length) || !label) continue;
+      judgements[index] = {
+        label,
+        confidence: Math.round(Math.min(1, Math.max(0, Number(r.confidence) || 0.5)) * 100) / 100,
+        method: 'llm',
+        conflictType: types.find(t => t === r.type),
+        span: typeof r.span === 'string' && r.span.trim() ? r.span.trim() : undefined,
+      };
+    }
+    return judgements;
+  }
+}
+
 // 作家代理 - 智能內容傳遞
 export class WriterAgent extends BaseAgent {
   constructor() {
-    super(CFG.WRITER_MODEL, CFG.WRITER_TEMPERATURE, CFG.WRITER_MAX_TOKENS);
+    super('writer', CFG.WRITER_MODEL, CFG.WRITER_TEMPERATURE, CFG.WRITER_MAX_TOKENS);
   }
 
-  async write(analysis: string, facts: Fact[], question: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<string> {
-    // 極簡系統提示詞
-    const systemPrompt = `Write response.`;
+  async write(
+    analysis: string,
+    facts: Fact[],
+    question: string,
+    lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko',
+    context: PromptContext = {},
+    sources: Source[] = []
+  ): Promise<string> {
+    const { prompt, systemPrompt } = this.buildPrompt(analysis, facts, question, context, sources);
+    return await this.callAPI(prompt, systemPrompt);
+  }
 
-    // 只使用前3個最重要的事實，大幅截斷
-    const topFacts = this.selectRelevantContent(facts, 3, 100);
-    const factsText = topFacts.map(f => `- ${f.statement}`).join('\n');
+  // 串流撰寫：模型產生的增量即時交給 onDelta，回傳完整回答
+  async writeStream(
+    analysis: string,
+    facts: Fact[],
+    question: string,
+    lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko',
+    onDelta: (delta: string) => void | Promise<void>,
+    context: PromptContext = {},
+    sources: Source[] = []
+  ): Promise<string> {
+    const { prompt, systemPrompt } = this.buildPrompt(analysis, facts, question, context, sources);
+    return await this.callAPIStream(prompt, systemPrompt, onDelta);
+  }
+
+  // 依 Critic 的問題與建議修訂草稿
+  async revise(
+    draft: string,
+    critique: CritiqueReport,
+    facts: Fact[],
+    question: string,
+    lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko',
+    sources: Source[] = []
+  ): Promise<string> {
+    const systemPrompt = `Revise draft per issues/suggestions. Keep language, structure and [n] citations.`;
+
+    const prompt = `Q: ${question}
+D: ${draft}
+I: ${critique.issues.join('; ')}
+S: ${critique.suggestions.join('; ')}
+F: ${this.references(facts, sources, question)}`;
+
+    const revised = (await this.callAPI(prompt, systemPrompt)).trim();
+    return revised || draft;
+  }
+
+  // 共識模式：多模型各自撰寫，選出最具代表性的回答
+  async writeWithConsensus(
+    analysis: string,
+    facts: Fact[],
+    question: string,
+    lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko',
+    context: PromptContext = {},
+    sources: Source[] = []
+  ): Promise<{ text: string; consensus: ModelConsensus; votes: ModelVote[] }> {
+    const { prompt, systemPrompt } = this.buildPrompt(analysis, facts, question, context, sources);
+    const votes = (await this.collectVotes(prompt, systemPrompt)).map(v => ({
+      ...v,
+      reasoning: v.response.split('\n').find(line => line.trim())?.trim().slice(0, 120) ?? '',
+    }));
+    const { consensus, votes: scored } = new ConsensusBuilder().build(votes);
+    return { text: consensus.consensus, consensus, votes: scored };
+  }
+
+  private buildPrompt(analysis: string, facts: Fact[], question: string, context: PromptContext, sources: Source[]) {
+    const factsText = this.references(facts, sources, question);
+    // 極簡系統提示詞；有編號的事實時要求行內引用
+    const systemPrompt = /^\[\d+\]/m.test(factsText)
+      ? `Write response. Cite supporting facts inline as [n] after each claim; use only the given numbers.`
+      : `Write response.`;
     
     // 大幅截斷分析內容
     const truncatedAnalysis = smartTruncate(analysis, 200);
     
     // 極簡提示詞
-    const prompt = `Q: ${question}
+    const prompt = withContext(`Q: ${question}
 A: ${truncatedAnalysis}
-F: ${factsText}`;
+F: ${factsText}`, context);
 
-    return await this.callAPI(prompt, systemPrompt);
+    return { prompt, systemPrompt };
+  }
+
+  // 依與問題的相關度（共同詞數）取前 MAX_WRITER_FACTS 個事實，相同時保留研究員給出的順序；
+  // 編號為來源序號 [n]（對應 sources）。沒有事實時改列前3個來源
+  private references(facts: Fact[], sources: Source[], question: string): string {
+    const terms = new Set(tokenize(question));
+    const relevance = (f: Fact) => [...new Set(tokenize(`${f.statement} ${f.evidence ?? ''}`))].filter(t => terms.has(t)).length;
+    const topFacts = facts
+      .map((fact, index) => ({ fact, index, score: relevance(fact) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, TOKEN_OPTIMIZATION.MAX_WRITER_FACTS)
+      .map(({ fact }) => fact);
+    if (topFacts.length > 0) {
+      return topFacts.map(f => {
+        const n = sources.findIndex(s => s.url === f.source) + 1;
+        return `${n > 0 ? `[${n}]` : '-'} ${smartTruncate(f.statement, TOKEN_OPTIMIZATION.MAX_WRITER_FACT_LENGTH)}`;
+      }).join('\n');
+    }
+    return sources.slice(0, 3)
+      .map((s, i) => `[${i + 1}] ${compressContent(s.title || s.url, 20)}: ${compressContent(s.snippet || '', 60)}`)
+      .join('\n');
   }
 }
 
 // 事實檢查代理 - 極簡驗證
 export class FactCheckerAgent extends BaseAgent {
   constructor() {
-    super(CFG.CRITIC_MODEL, CFG.CRITIC_TEMPERATURE);
+    super('factcheck', CFG.CRITIC_MODEL, CFG.CRITIC_TEMPERATURE);
+  }
+
+  async factCheck(
+    text: string,
+    sources: Source[],
+    lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko',
+    passages: SourcePassage[] = []
+  ): Promise<FactCheckReport> {
+    const { prompt, systemPrompt } = this.buildPrompt(text, sources, passages);
+    const response = await this.callAPI(prompt, systemPrompt);
+    return this.parseReport(response);
+  }
+
+  // 共識模式：多模型各自查核，比較各主張的判定
+  async factCheckWithConsensus(
+    text: string,
+    sources: Source[],
+    lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko',
+    passages: SourcePassage[] = []
+  ): Promise<{ report: FactCheckReport; consensus: ModelConsensus; votes: ModelVote[] }> {
+    const { prompt, systemPrompt } = this.buildPrompt(text, sources, passages);
+    const rawVotes = await this.collectVotes(prompt, systemPrompt);
+    const reports = rawVotes.map(v => this.parseReport(v.response));
+    const votes = rawVotes.map((v, i) => ({ ...v, reasoning: reports[i].summary ?? '' }));
+
+    // 以查核摘要呈現共識與異議
+    const summaries = new Map(rawVotes.map((v, i) => [
+      v.response,
+      reports[i].summary || reports[i].claims.map(c => `${c.verdict}: ${c.text}`).join('; ')
+    ]));
+    const { consensus, votes: scored, winner } = new ConsensusBuilder().build(
+      votes,
+      factCheckSimilarity,
+      r => summaries.get(r) ?? r
+    );
+    return { report: reports[winner], consensus, votes: scored };
   }
 
-  async factCheck(text: string, sources: Source[], lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<FactCheckReport> {
+  private buildPrompt(text: string, sources: Source[], passages: SourcePassage[] = []) {
     // 極簡系統提示詞
     const systemPrompt = `Check: {"claims":[{"text":"","verdict":"SUPPORTED"|"WEAK"|"NO_EVIDENCE"|"CONTRADICTED"}],"summary":""}`;
 
-    // 只選擇最相關的2個來源
-    const relevantSources = this.selectRelevantContent(sources, 2, 50);
-    const sourcesText = relevantSources.map(s => {
-      const title = (s.title || s.url).substring(0, 25);
-      const snippet = (s.snippet || '').substring(0, 40);
-      return `${title}: ${snippet}`;
-    }).join('|');
+    // 有全文段落時以段落為證據，否則只選擇最相關的2個來源摘要
+    const sourcesText = passages.length > 0
+      ? passages.slice(0, TOKEN_OPTIMIZATION.MAX_FACTCHECK_PASSAGES)
+          .map(p => `[${p.id}] ${(p.title || p.url).substring(0, 25)}: ${p.text}`)
+          .join('|')
+      : this.selectRelevantContent(sources, 2, 50).map(s => {
+          const title = (s.title || s.url).substring(0, 25);
+          const snippet = (s.snippet || '').substring(0, 40);
+          return `${title}: ${snippet}`;
+        }).join('|');
     
     // 大幅截斷待檢查文本
     const truncatedText = smartTruncate(text, 400);
@@ -224,7 +971,10 @@ export class FactCheckerAgent extends BaseAgent {
     const prompt = `T: ${truncatedText}
 S: ${sourcesText}`;
 
-    const response = await this.callAPI(prompt, systemPrompt);
+    return { prompt, systemPrompt };
+  }
+
+  private parseReport(response: string): FactCheckReport {
     const parsedResponse = tryParseJSON(response);
     if (!parsedResponse) {
       console.warn('[FactCheckerAgent] Failed to parse JSON response, returning empty report');
@@ -237,19 +987,36 @@ S: ${sourcesText}`;
 // 評論家代理 - 極簡反饋
 export class CriticAgent extends BaseAgent {
   constructor() {
-    super(CFG.CRITIC_MODEL, CFG.CRITIC_TEMPERATURE);
+    super('critic', CFG.CRITIC_MODEL, CFG.CRITIC_TEMPERATURE);
   }
 
-  async critique(text: string, lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<string> {
+  async critique(text: string, facts: Fact[], lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): Promise<CritiqueReport> {
     // 極簡系統提示詞
-    const systemPrompt = `Feedback.`;
+    const systemPrompt = `Review grounding, structure, completeness: {"verdict":"approve"|"revise","issues":[""],"suggestions":[""]}`;
 
-    // 大幅截斷文本
-    const truncatedText = smartTruncate(text, 300);
+    // 截斷文本（評審需要看到大部分回答）
+    const truncatedText = smartTruncate(text, 1200);
+    const topFacts = this.selectRelevantContent(facts, 3, 100);
     
     // 極簡提示詞
-    const prompt = `T: ${truncatedText}`;
+    const prompt = `T: ${truncatedText}
+F: ${topFacts.map(f => `- ${f.statement}`).join('\n')}`;
 
-    return await this.callAPI(prompt, systemPrompt);
+    const response = await this.callAPI(prompt, systemPrompt);
+    const parsed = tryParseJSON(response);
+    if (!parsed) {
+      // 無法解析時視為通過，避免無限修訂
+      console.warn('[CriticAgent] Failed to parse JSON response, treating as approve');
+      return { verdict: 'approve', issues: [], suggestions: [], feedback: response.trim() };
+    }
+    const list = (x: unknown) => Array.isArray(x) ? x.filter((s): s is string => typeof s === 'string' && !!s.trim()) : [];
+    const issues = list(parsed.issues);
+    const suggestions = list(parsed.suggestions);
+    return {
+      verdict: parsed.verdict === 'revise' && (issues.length > 0 || suggestions.length > 0) ? 'revise' : 'approve',
+      issues,
+      suggestions,
+      feedback: [...issues, ...suggestions].join('\n'),
+    };
   }
 }
@@ -0,0 +1,214 @@
+import { Source, BiasDetection, BiasReport } from '../types.js';
+import { detectLang } from './utils.js';
+
+type Severity = BiasDetection['severity'];
+
+const SEVERITY_WEIGHT: Record<Severity, number> = { low: 10, medium: 25, high: 45, critical: 70 };
+
+// 国家/地区顶级域名 -> 地区名称
+const COUNTRY_TLDS: Record<string, string> = {
+  tw: '台湾', cn: '中国大陆', hk: '香港', jp: '日本', kr: '韩国', sg: '新加坡',
+  uk: '英国', de: '德国', fr: '法国', it: '意大利', es: '西班牙', nl: '荷兰', eu: '欧盟',
+  us: '美国', ca: '加拿大', au: '澳大利亚', in: '印度', ru: '俄罗斯', br: '巴西',
+};
+
+// 美国政府/教育等通用顶级域名视为美国来源
+const US_TLDS = new Set(['gov', 'edu', 'mil']);
+
+// 偏见分析器
+export class BiasAnalyzer {
+  // 分析来源集合的潜在偏见
+  analyze(sources: Source[], question = ''): BiasReport {
+    const detectedBiases = [
+      this.detectSelectionBias(sources),
+      this.detectSourceBias(sources),
+      this.detectGeographicBias(sources),
+      this.detectLanguageBias(sources, question),
+      this.detectTemporalBias(sources),
+    ]
+      .filter((b): b is BiasDetection => b !== null)
+      .map(b => ({ ...b, confidence: Math.round(b.confidence * 100) / 100 }));
+
+    const biasScore = Math.min(100, detectedBiases.reduce((sum, b) => sum + SEVERITY_WEIGHT[b.severity] * b.confidence, 0));
+    const overallBiasLevel = this.levelFromScore(biasScore, detectedBiases);
+    const mitigationStrategies = [...new Set(detectedBiases.flatMap(b => b.mitigation))];
+
+    const recommendations: string[] = [];
+    if (detectedBiases.length === 0) {
+      recommendations.push('来源分布均衡，可维持现有检索策略');
+    } else {
+      recommendations.push('在引用结论时注明来源分布的局限');
+      if (overallBiasLevel === 'high' || overallBiasLevel === 'critical') {
+        recommendations.push('建议扩大检索范围后再做结论');
+      }
+    }
+
+    return {
+      detectedBiases,
+      overallBiasLevel,
+      biasScore: Math.round(biasScore),
+      riskAssessment: this.describeRisk(overallBiasLevel, detectedBiases),
+      mitigationStrategies,
+      recommendations,
+    };
+  }
+
+  // 选择偏见：来源过少或独立网域太少
+  private detectSelectionBias(sources: Source[]): BiasDetection | null {
+    const domains = new Set(sources.map(s => this.domainOf(s.url)).filter(Boolean));
+    if (sources.length >= 3 && domains.size >= 3) return null;
+
+    const severity: Severity = sources.length === 0 ? 'high' : 'medium';
+    return {
+      types: ['selection'],
+      severity,
+      description: sources.length === 0
+        ? '没有任何外部来源，回答完全依赖模型内部知识'
+        : `仅有 ${sources.length} 个来源、${domains.size} 个独立网域`,
+      examples: [...domains].slice(0, 3),
+      impact: '样本过小，容易遗漏反面证据或其他观点',
+      mitigation: ['增加检索查询或放宽搜索条件', '启用查询扩展以覆盖更多来源'],
+      confidence: sources.length === 0 ? 0.9 : 0.7,
+    };
+  }
+
+  // 来源偏见：单一媒体主导
+  private detectSourceBias(sources: Source[]): BiasDetection | null {
+    if (sources.length < 2) return null;
+    const counts = this.countBy(sources.map(s => this.domainOf(s.url)).filter(Boolean));
+    const [topDomain, topCount] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? ['', 0];
+    const share = topCount / sources.length;
+    if (share <= 0.4) return null;
+
+    return {
+      types: ['source'],
+      severity: share >= 0.75 ? 'high' : share >= 0.5 ? 'medium' : 'low',
+      description: `${topDomain} 占全部来源的 ${Math.round(share * 100)}%`,
+      examples: sources.filter(s => this.domainOf(s.url) === topDomain).slice(0, 3).map(s => s.title || s.url),
+      impact: '结论可能反映单一媒体的立场或编辑取向',
+      mitigation: ['降低每个网域的最大收录数（maxPerDomain）', '补充不同类型的来源（学术、官方、新闻）'],
+      confidence: Math.min(1, 0.5 + share / 2),
+    };
+  }
+
+  // 地理偏见：顶级域名集中于单一国家/地区
+  private detectGeographicBias(sources: Source[]): BiasDetection | null {
+    const regions = sources.map(s => this.regionOf(s.url)).filter((r): r is string => r !== null);
+    if (regions.length < 3) return null;
+
+    const counts = this.countBy(regions);
+    const [topRegion, topCount] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    const share = topCount / regions.length;
+    if (counts.size > 1 && share < 0.8) return null;
+
+    return {
+      types: ['geographic', 'cultural'],
+      severity: share === 1 && regions.length >= 4 ? 'medium' : 'low',
+      description: `可判定地区的来源中 ${Math.round(share * 100)}% 来自${topRegion}`,
+      examples: [...counts.entries()].map(([region, n]) => `${region}: ${n}`),
+      impact: '可能缺少其他国家或地区的视角与数据',
+      mitigation: ['以其他语言或地区关键词补充检索', '纳入国际组织来源（如 un.org、worldbank.org）'],
+      confidence: Math.min(1, 0.4 + regions.length / sources.length * 0.4),
+    };
+  }
+
+  // 语言偏见：来源语言单一，或与提问语言不符
+  private detectLanguageBias(sources: Source[], question: string): BiasDetection | null {
+    if (sources.length < 2) return null;
+    const langs = sources.map(s => detectLang(`${s.title || ''} ${s.snippet || ''}`));
+    const counts = this.countBy(langs);
+    const [topLang, topCount] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    const share = topCount / langs.length;
+    const questionLang = question ? detectLang(question) : null;
+    const mismatch = questionLang !== null && !counts.has(questionLang);
+
+    if (share < 0.85 && !mismatch) return null;
+
+    return {
+      types: ['language'],
+      severity: mismatch && share === 1 ? 'medium' : 'low',
+      description: mismatch
+        ? `提问语言为 ${questionLang}，但没有任何该语言的来源`
+        : `${Math.round(share * 100)}% 的来源为 ${topLang}`,
+      examples: [...counts.entries()].map(([lang, n]) => `${lang}: ${n}`),
+      impact: '非主要语言社群的资讯与观点可能被忽略',
+      mitigation: ['开启多语查询扩展', '设置最少英文来源数（minEnSources）或补充本地语言来源'],
+      confidence: 0.6,
+    };
+  }
+
+  // 时间偏见：资料过旧，或发布时间过度集中
+  private detectTemporalBias(sources: Source[]): BiasDetection | null {
+    const dates = sources
+      .map(s => (s.published ? new Date(s.published).getTime() : NaN))
+      .filter(t => Number.isFinite(t));
+    if (dates.length < 2) return null;
+
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    const oldShare = dates.filter(t => now - t > 2 * 365 * day).length / dates.length;
+    const spreadDays = (Math.max(...dates) - Math.min(...dates)) / day;
+
+    if (oldShare >= 0.7) {
+      return {
+        types: ['temporal'],
+        severity: oldShare === 1 ? 'high' : 'medium',
+        description: `${Math.round(oldShare * 100)}% 的来源发布于两年以前`,
+        examples: sources.filter(s => s.published).slice(0, 3).map(s => `${s.published} ${s.title || s.url}`),
+        impact: '结论可能已过时，未反映最新进展',
+        mitigation: ['以「最新」「今年」等关键词重新检索', '优先采用近期发布的来源'],
+        confidence: Math.min(1, 0.5 + dates.length / sources.length * 0.4),
+      };
+    }
+
+    if (dates.length >= 3 && spreadDays < 3) {
+      return {
+        types: ['temporal'],
+        severity: 'low',
+        description: `所有来源集中在 ${Math.max(1, Math.round(spreadDays))} 天内发布`,
+        examples: sources.filter(s => s.published).slice(0, 3).map(s => `${s.published} ${s.title || s.url}`),
+        impact: '可能只反映单一新闻周期的说法，缺乏长期背景',
+        mitigation: ['补充较早期的背景资料或长期研究'],
+        confidence: 0.5,
+      };
+    }
+
+    return null;
+  }
+
+  private levelFromScore(score: number, biases: BiasDetection[]): BiasReport['overallBiasLevel'] {
+    if (biases.some(b => b.severity === 'critical') || score >= 75) return 'critical';
+    if (biases.some(b => b.severity === 'high') || score >= 50) return 'high';
+    if (score >= 20) return 'medium';
+    return 'low';
+  }
+
+  private describeRisk(level: BiasReport['overallBiasLevel'], biases: BiasDetection[]): string {
+    if (biases.length === 0) return '未检测到明显的来源偏见';
+    const kinds = [...new Set(biases.flatMap(b => b.types))].join('、');
+    switch (level) {
+      case 'critical':
+      case 'high': return `偏见风险较高（${kinds}），结论需审慎使用`;
+      case 'medium': return `存在中度偏见风险（${kinds}），建议补充来源`;
+      default: return `偏见风险较低（${kinds}）`;
+    }
+  }
+
+  private domainOf(url: string): string {
+    try { return new URL(url).hostname.replace(/^www\./, '').toLowerCase(); } catch { return ''; }
+  }
+
+  // 由顶级域名推断地区；.com/.org 等通用域名无法判定时返回 null
+  private regionOf(url: string): string | null {
+    const tld = this.domainOf(url).split('.').pop() || '';
+    if (COUNTRY_TLDS[tld]) return COUNTRY_TLDS[tld];
+    if (US_TLDS.has(tld)) return COUNTRY_TLDS.us;
+    return null;
+  }
+
+  private countBy(items: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const item of items) counts.set(item, (counts.get(item) || 0) + 1);
+    return counts;
+  }
+}
@@ -0,0 +1,92 @@
+// 时间预算被削减的记录（随 budget 事件发给前端）
+export interface BudgetCut {
+  stage: string;
+  action: 'skipped' | 'reduced' | 'timeout' | 'truncated';
+  detail: string;
+}
+
+export interface BudgetReport {
+  limitMs: number | null;
+  elapsedMs: number;
+  remainingMs: number | null;
+  slices: Record<string, number>;
+  cuts: BudgetCut[];
+}
+
+// 时间片低于阶段预估成本的这个比例时，非关键阶段直接跳过
+export const MIN_SLICE_RATIO = 0.25;
+
+// 一个阶段的时间片：到期即中止 signal
+export interface BudgetSlice {
+  ms: number;
+  ratio: number;   // 时间片 / 预估成本，< 1 表示需要降级
+  signal: AbortSignal;
+  dispose(): void;
+}
+
+// 时间预算调度：按各阶段预估成本的比例切分剩余时间（前面阶段省下的时间顺延给后面）
+export class BudgetScheduler {
+  readonly limitMs: number | null;
+  private start = Date.now();
+  private slices: Record<string, number> = {};
+  private cuts: BudgetCut[] = [];
+
+  constructor(limitMs?: number | null) {
+    this.limitMs = limitMs && limitMs > 0 ? limitMs : null;
+  }
+
+  get limited(): boolean {
+    return this.limitMs !== null;
+  }
+
+  elapsed(): number {
+    return Date.now() - this.start;
+  }
+
+  remaining(): number {
+    return this.limitMs === null ? Number.POSITIVE_INFINITY : Math.max(0, this.limitMs - this.elapsed());
+  }
+
+  // pendingCost 为本阶段及之后所有待执行阶段的预估成本总和
+  allocate(cost: number, pendingCost: number): number {
+    const left = this.remaining();
+    if (!Number.isFinite(left)) return left;
+    return pendingCost > 0 ? Math.floor(left * Math.min(1, cost / pendingCost)) : left;
+  }
+
+  // 开启时间片；不限时则只跟随 parent（整个运行的取消信号）中止
+  open(stage: string, ms: number, cost: number, parent?: AbortSignal): BudgetSlice {
+    const controller = new AbortController();
+    if (Number.isFinite(ms)) this.slices[stage] = ms;
+    const timer = Number.isFinite(ms)
+      ? setTimeout(() => controller.abort(new Error(`time slice of ${ms}ms exceeded`)), ms)
+      : null;
+    const onCancel = () => controller.abort(parent?.reason);
+    if (parent?.aborted) onCancel();
+    else parent?.addEventListener('abort', onCancel, { once: true });
+    return {
+      ms,
+      ratio: cost > 0 && Number.isFinite(ms) ? ms / cost : 1,
+      signal: controller.signal,
+      dispose: () => {
+        if (timer) clearTimeout(timer);
+        parent?.removeEventListener('abort', onCancel);
+      },
+    };
+  }
+
+  cut(stage: string, action: BudgetCut['action'], detail: string): void {
+    console.warn(`[Budget] ${stage} ${action}: ${detail}`);
+    this.cuts.push({ stage, action, detail });
+  }
+
+  report(): BudgetReport {
+    return {
+      limitMs: this.limitMs,
+      elapsedMs: this.elapsed(),
+      remainingMs: this.limitMs === null ? null : this.remaining(),
+      slices: { ...this.slices },
+      cuts: [...this.cuts],
+    };
+  }
+}
@@ -60,6 +60,11 @@ export class ValidationCache {
     }
   }
 
+  // 清空全部緩存
+  clear(): void {
+    this.cache.clear();
+  }
+
   // 獲取緩存統計
   getStats(): { size: number; maxSize: number; hitRate: number } {
     return {
@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import {
+  CassetteEntry, CassetteFile, CassetteKind, CassetteMode, LLMChatRequest, LLMChatResult, LLMProvider,
+  LLMUsageReport, SearchParams, SearchProvider, Source
+} from '../types.js';
+import { CFG } from './config.js';
+import { UsageMeter } from './utils.js';
+
+// 键名排序后序列化，保证相同请求得到相同的哈希
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(v => stableStringify(v ?? null)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function cassetteKey(kind: CassetteKind, request: unknown): string {
+  return createHash('sha256').update(stableStringify({ kind, request })).digest('hex');
+}
+
+// 深拷贝，避免调用方修改已录制 / 重放的数据
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// 录制文件：record 时记下每个请求的结果，replay 时按请求哈希依序回放，缺失即报错（不会回退到网络）
+export class Cassette {
+  readonly file: string;
+  readonly mode: Exclude<CassetteMode, 'off'>;
+  private data: CassetteFile = { version: 1, entries: {} };
+  private cursors = new Map<string, number>();
+  private dirty = false;
+  private counts = { hits: 0, misses: 0, recorded: 0 };
+
+  constructor(file: string, mode: Exclude<CassetteMode, 'off'>) {
+    this.file = path.resolve(file);
+    this.mode = mode;
+    // record 每次从空文件开始，避免新旧回应混在同一个键下
+    if (mode === 'replay') {
+      const raw = JSON.parse(fs.readFileSync(this.file, 'utf8')) as CassetteFile;
+      if (raw?.version !== 1 || !raw.entries || typeof raw.entries !== 'object') {
+        throw new Error(`Invalid cassette file ${this.file}`);
+      }
+      this.data = raw;
+      console.log(`[Cassette] 重放 ${this.file}（${Object.keys(raw.entries).length} 个请求）`);
+    } else {
+      console.log(`[Cassette] 录制到 ${this.file}`);
+    }
+  }
+
+  get replaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  // record：执行 produce 并记下结果；replay：返回录制的结果，produce 不会被调用
+  async through<T>(kind: CassetteKind, request: unknown, produce: () => Promise<T>): Promise<T> {
+    const key = cassetteKey(kind, request);
+    if (this.mode === 'replay') {
+      const entry = this.data.entries[key];
+      if (!entry || entry.responses.length === 0) {
+        this.counts.misses++;
+        const preview = stableStringify(request).slice(0, 160);
+        console.warn(`[Cassette] 重放缺失 ${kind} ${key.slice(0, 12)}: ${preview}`);
+        throw new Error(`Cassette miss: ${kind} ${key.slice(0, 12)}`);
+      }
+      const idx = this.cursors.get(key) ?? 0;
+      this.cursors.set(key, idx + 1);
+      this.counts.hits++;
+      return copy(entry.responses[Math.min(idx, entry.responses.length - 1)]) as T;
+    }
+
+    const value = await produce();
+    const entry: CassetteEntry = this.data.entries[key] ??= { kind, request: copy(request), responses: [] };
+    entry.responses.push(copy(value) ?? null);
+    this.counts.recorded++;
+    this.dirty = true;
+    return value;
+  }
+
+  // 写入文件（只在 record 且有新内容时）；先写临时文件再替换
+  async save(): Promise<void> {
+    if (this.mode !== 'record' || !this.dirty) return;
+    this.dirty = false;
+    await fsp.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(this.data, null, 2), 'utf8');
+    await fsp.rename(tmp, this.file);
+    console.log(`[Cassette] 已保存 ${Object.keys(this.data.entries).length} 个请求到 ${this.file}`);
+  }
+
+  stats(): { hits: number; misses: number; recorded: number } {
+    return { ...this.counts };
+  }
+
+  wrapLLM(provider: LLMProvider): LLMProvider {
+    return provider instanceof CassetteLLMProvider && provider.cassette === this ? provider : new CassetteLLMProvider(provider, this);
+  }
+
+  wrapSearch(provider: SearchProvider): SearchProvider {
+    return provider instanceof CassetteSearchProvider && provider.cassette === this ? provider : new CassetteSearchProvider(provider, this);
+  }
+}
+
+// 经过录制文件的 LLM 提供者：chat 与 stream 共用同一个键，重放时把录制的全文按词切块送给 onDelta
+export class CassetteLLMProvider implements LLMProvider {
+  readonly name: string;
+  private meter: UsageMeter;
+
+  constructor(private inner: LLMProvider, readonly cassette: Cassette) {
+    this.name = inner.name;
+    this.meter = new UsageMeter(inner.name);
+  }
+
+  private requestKey(request: LLMChatRequest) {
+    return { model: request.model, messages: request.messages, temperature: request.temperature, maxTokens: request.maxTokens };
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    if (request.signal?.aborted) throw request.signal.reason;
+    const result = await this.cassette.through('chat', this.requestKey(request), () => this.inner.chat(request));
+    return { text: result.text, usage: this.meter.record(request.messages, result.text, result.usage) };
+  }
+
+  async stream(request: LLMChatRequest, onDelta: (delta: string) => void | Promise<void>): Promise<LLMChatResult> {
+    if (request.signal?.aborted) throw request.signal.reason;
+    let streamed = false;
+    const result = await this.cassette.through('chat', this.requestKey(request), () => {
+      streamed = true;
+      return this.inner.stream(request, onDelta);
+    });
+    if (!streamed) {
+      for (const piece of result.text.match(/\S+\s*|\s+/g) ?? []) {
+        if (request.signal?.aborted) throw request.signal.reason;
+        await onDelta(piece);
+      }
+    }
+    return { text: result.text, usage: this.meter.record(request.messages, result.text, result.usage) };
+  }
+
+  async embed(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const vectors = await this.cassette.through('embed', { model, texts }, () => this.inner.embed(texts, model, signal));
+    this.meter.recordEmbeddings(texts.length);
+    return vectors;
+  }
+
+  usage(): LLMUsageReport {
+    return this.meter.snapshot();
+  }
+}
+
+// 经过录制文件的搜索提供者
+export class CassetteSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private inner: SearchProvider, readonly cassette: Cassette) {
+    this.name = inner.name;
+  }
+
+  search(query: string, params: SearchParams, signal?: AbortSignal): Promise<Source[]> {
+    return this.cassette.through('search', { provider: this.inner.name, query, params }, () => this.inner.search(query, params, signal));
+  }
+}
+
+// 同一文件共享一个实例（同一进程内的多次运行写入同一个录制文件）
+const cassettes = new Map<string, Cassette>();
+
+export function getCassette(file: string = CFG.CASSETTE_PATH, mode: Exclude<CassetteMode, 'off'> = CFG.CASSETTE_MODE === 'replay' ? 'replay' : 'record'): Cassette {
+  const key = path.resolve(file);
+  let cassette = cassettes.get(key);
+  if (!cassette) {
+    cassette = new Cassette(key, mode);
+    cassettes.set(key, cassette);
+  } else if (cassette.mode !== mode) {
+    throw new Error(`Cassette ${key} is already open in ${cassette.mode} mode`);
+  }
+  return cassette;
+}
+
+// CASSETTE_MODE 开启时的全局录制文件，否则为 null
+export function activeCassette(): Cassette | null {
+  return CFG.CASSETTE_MODE === 'off' ? null : getCassette(CFG.CASSETTE_PATH, CFG.CASSETTE_MODE);
+}
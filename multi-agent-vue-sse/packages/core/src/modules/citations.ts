@@ -0,0 +1,297 @@
+import { Source, Fact, AcademicCitation, CitationReport } from '../types.js';
+
+type CitationType = AcademicCitation['type'];
+
+// 已知出版方/期刊：域名 -> 类型与刊名
+const KNOWN_VENUES: Record<string, { type: CitationType; venue: string; peerReviewed?: boolean; highImpact?: boolean; publisher?: string }> = {
+  'nature.com': { type: 'journal', venue: 'Nature', peerReviewed: true, highImpact: true, publisher: 'Springer Nature' },
+  'science.org': { type: 'journal', venue: 'Science', peerReviewed: true, highImpact: true, publisher: 'AAAS' },
+  'cell.com': { type: 'journal', venue: 'Cell', peerReviewed: true, highImpact: true, publisher: 'Cell Press' },
+  'thelancet.com': { type: 'journal', venue: 'The Lancet', peerReviewed: true, highImpact: true, publisher: 'Elsevier' },
+  'nejm.org': { type: 'journal', venue: 'The New England Journal of Medicine', peerReviewed: true, highImpact: true },
+  'jamanetwork.com': { type: 'journal', venue: 'JAMA', peerReviewed: true, highImpact: true },
+  'pnas.org': { type: 'journal', venue: 'Proceedings of the National Academy of Sciences', peerReviewed: true, highImpact: true },
+  'sciencedirect.com': { type: 'journal', venue: 'ScienceDirect', peerReviewed: true, publisher: 'Elsevier' },
+  'springer.com': { type: 'journal', venue: 'Springer', peerReviewed: true, publisher: 'Springer' },
+  'wiley.com': { type: 'journal', venue: 'Wiley Online Library', peerReviewed: true, publisher: 'Wiley' },
+  'plos.org': { type: 'journal', venue: 'PLOS', peerReviewed: true, publisher: 'Public Library of Science' },
+  'frontiersin.org': { type: 'journal', venue: 'Frontiers', peerReviewed: true, publisher: 'Frontiers Media' },
+  'mdpi.com': { type: 'journal', venue: 'MDPI', peerReviewed: true, publisher: 'MDPI' },
+  'tandfonline.com': { type: 'journal', venue: 'Taylor & Francis Online', peerReviewed: true, publisher: 'Taylor & Francis' },
+  'jstor.org': { type: 'journal', venue: 'JSTOR', peerReviewed: true },
+  'ncbi.nlm.nih.gov': { type: 'journal', venue: 'PubMed Central', peerReviewed: true },
+  'arxiv.org': { type: 'journal', venue: 'arXiv preprint', peerReviewed: false },
+  'ieee.org': { type: 'conference', venue: 'IEEE Xplore', peerReviewed: true, publisher: 'IEEE' },
+  'acm.org': { type: 'conference', venue: 'ACM Digital Library', peerReviewed: true, publisher: 'ACM' },
+  'aclanthology.org': { type: 'conference', venue: 'ACL Anthology', peerReviewed: true },
+  'neurips.cc': { type: 'conference', venue: 'NeurIPS', peerReviewed: true },
+  'openreview.net': { type: 'conference', venue: 'OpenReview', peerReviewed: true },
+  'books.google.com': { type: 'book', venue: 'Google Books' },
+  'oreilly.com': { type: 'book', venue: "O'Reilly Media", publisher: "O'Reilly Media" },
+  'who.int': { type: 'report', venue: 'World Health Organization', publisher: 'World Health Organization' },
+  'un.org': { type: 'report', venue: 'United Nations', publisher: 'United Nations' },
+  'worldbank.org': { type: 'report', venue: 'World Bank', publisher: 'World Bank' },
+  'oecd.org': { type: 'report', venue: 'OECD', publisher: 'OECD' },
+  'imf.org': { type: 'report', venue: 'International Monetary Fund', publisher: 'International Monetary Fund' },
+  'reuters.com': { type: 'news', venue: 'Reuters' },
+  'apnews.com': { type: 'news', venue: 'Associated Press' },
+  'ap.org': { type: 'news', venue: 'Associated Press' },
+  'bbc.com': { type: 'news', venue: 'BBC News' },
+  'bbc.co.uk': { type: 'news', venue: 'BBC News' },
+  'nytimes.com': { type: 'news', venue: 'The New York Times' },
+  'theguardian.com': { type: 'news', venue: 'The Guardian' },
+  'wsj.com': { type: 'news', venue: 'The Wall Street Journal' },
+  'bloomberg.com': { type: 'news', venue: 'Bloomberg' },
+  'ft.com': { type: 'news', venue: 'Financial Times' },
+  'cnn.com': { type: 'news', venue: 'CNN' },
+  'cna.com.tw': { type: 'news', venue: '中央社' },
+};
+
+const DOI_RE = /\b(10\.\d{4,9}\/[-._;()/:A-Za-z0-9]+[A-Za-z0-9])/;
+const ARXIV_RE = /arxiv\.org\/(?:abs|pdf)\/(\d{4}\.\d{4,5})/i;
+const ISBN_RE = /\bISBN(?:-1[03])?:?\s*((?:97[89][- ]?)?\d{1,5}[- ]?\d{1,7}[- ]?\d{1,7}[- ]?[\dX])\b/i;
+const NAME = `[A-Z][A-Za-z.'\\-]+(?:\\s+[A-Z][A-Za-z.'\\-]+){0,3}`;
+const BY_LINE_RE = new RegExp(`\\b[Bb]y\\s+(${NAME}(?:\\s*(?:,|and|&)\\s*${NAME})*)`);
+const ET_AL_RE = /\b([A-Z][A-Za-z'\-]+)\s+et\s+al\.?/;
+const ZH_AUTHOR_RE = /(?:作者|記者|记者|撰文)[：:\s]*([\u4E00-\u9FFF]{2,4}(?:[、，,][\u4E00-\u9FFF]{2,4})*)/;
+
+// 学术引用生成器
+export class CitationBuilder {
+  // 生成完整的引用报告
+  build(sources: Source[], facts: Fact[] = []): CitationReport {
+    const byUrl = new Map<string, Source>();
+    for (const source of sources) {
+      if (source.url && !byUrl.has(source.url)) byUrl.set(source.url, source);
+    }
+    // 事实引用的来源若不在来源列表中，也一并纳入
+    for (const fact of facts) {
+      if (fact.source && !byUrl.has(fact.source)) {
+        byUrl.set(fact.source, { url: fact.source, snippet: fact.evidence, published: fact.published });
+      }
+    }
+
+    const citations = [...byUrl.values()].map(source =>
+      this.toCitation(source, facts.filter(f => f.source === source.url))
+    );
+
+    return {
+      citations,
+      totalCitations: citations.length,
+      citationFormats: {
+        apa: citations.map(c => this.formatAPA(c)),
+        mla: citations.map(c => this.formatMLA(c)),
+        chicago: citations.map(c => this.formatChicago(c)),
+        harvard: citations.map(c => this.formatHarvard(c)),
+      },
+      qualityMetrics: this.calculateQualityMetrics(citations),
+    };
+  }
+
+  // 从来源和相关事实推断引用信息
+  toCitation(source: Source, relatedFacts: Fact[] = []): AcademicCitation {
+    const hostname = this.hostname(source.url);
+    const known = this.lookupVenue(hostname);
+    const text = [source.title, source.snippet, ...relatedFacts.map(f => f.evidence)].filter(Boolean).join(' ');
+    // 作者只从正文摘录中提取，避免把标题误认为人名
+    const bodyText = [source.snippet, ...relatedFacts.map(f => f.evidence)].filter(Boolean).join(' ');
+
+    const citation: AcademicCitation = {
+      type: this.inferType(source, hostname, known?.type, text),
+      authors: this.inferAuthors(bodyText),
+      title: (source.title || '').trim() || hostname || source.url,
+      venue: known?.venue || hostname.replace(/^www\./, ''),
+      year: this.inferYear(source, relatedFacts, text),
+      url: source.url,
+    };
+
+    const doi = this.inferDOI(source.url, text);
+    if (doi) citation.doi = doi;
+    const isbn = text.match(ISBN_RE)?.[1];
+    if (isbn) citation.isbn = isbn.replace(/[- ]/g, '');
+    if (known?.publisher) citation.publisher = known.publisher;
+    else if (citation.type === 'report' && /\.gov(\.|$)/.test(hostname)) citation.publisher = hostname;
+
+    const volume = text.match(/\b[Vv]ol(?:ume)?\.?\s*(\d+)/)?.[1];
+    const issue = text.match(/\b(?:[Nn]o|[Ii]ssue)\.?\s*(\d+)/)?.[1];
+    const pages = text.match(/\b[Pp]p?\.\s*(\d+\s*[-–]\s*\d+)/)?.[1];
+    if (volume) citation.volume = volume;
+    if (issue) citation.issue = issue;
+    if (pages) citation.pages = pages.replace(/\s+/g, '');
+
+    return citation;
+  }
+
+  // APA 第 7 版
+  formatAPA(c: AcademicCitation): string {
+    const authors = c.authors.length ? this.joinAuthors(c.authors.map(a => this.initialsName(a)), ', ', ', & ') : c.venue;
+    const locator = this.locator(c);
+    const parts = [`${authors} (${this.yearText(c)}).`, `${c.title}.`];
+    if (c.venue && (c.authors.length || c.type === 'journal' || c.type === 'conference')) {
+      parts.push(`${c.venue}${c.volume ? `, ${c.volume}` : ''}${c.issue ? `(${c.issue})` : ''}${c.pages ? `, ${c.pages}` : ''}.`);
+    }
+    parts.push(locator);
+    return parts.filter(Boolean).join(' ');
+  }
+
+  // MLA 第 9 版
+  formatMLA(c: AcademicCitation): string {
+    const authors = this.mlaAuthors(c.authors);
+    const container = [c.venue, c.volume ? `vol. ${c.volume}` : '', c.issue ? `no. ${c.issue}` : '', this.yearText(c), c.pages ? `pp. ${c.pages}` : '']
+      .filter(Boolean).join(', ');
+    const locator = c.doi ? `https://doi.org/${c.doi}` : (c.url || '');
+    return [authors ? `${authors}.` : '', `"${c.title}."`, `${container}${locator ? `, ${locator}` : ''}.`].filter(Boolean).join(' ');
+  }
+
+  // Chicago（作者-日期格式）
+  formatChicago(c: AcademicCitation): string {
+    const authors = this.mlaAuthors(c.authors) || c.venue;
+    const venue = c.venue && authors !== c.venue
+      ? `${c.venue}${c.volume ? ` ${c.volume}` : ''}${c.issue ? ` (${c.issue})` : ''}${c.pages ? `: ${c.pages}` : ''}.`
+      : '';
+    return [`${authors}.`, `${this.yearText(c)}.`, `"${c.title}."`, venue, this.locator(c)].filter(Boolean).join(' ');
+  }
+
+  // Harvard
+  formatHarvard(c: AcademicCitation): string {
+    const authors = c.authors.length ? this.joinAuthors(c.authors.map(a => this.initialsName(a, false)), ', ', ' and ') : c.venue;
+    const accessed = new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+    const venue = c.venue && authors !== c.venue ? `${c.venue}.` : '';
+    const available = c.doi ? `doi:${c.doi}.` : c.url ? `Available at: ${c.url} (Accessed: ${accessed}).` : '';
+    return [`${authors} (${this.yearText(c)})`, `${c.title}.`, venue, available].filter(Boolean).join(' ');
+  }
+
+  // 计算引用质量指标
+  private calculateQualityMetrics(citations: AcademicCitation[]): CitationReport['qualityMetrics'] {
+    const currentYear = new Date().getFullYear();
+    let academicSources = 0, peerReviewed = 0, recentPublications = 0, highImpactJournals = 0;
+
+    for (const c of citations) {
+      const known = c.url ? this.lookupVenue(this.hostname(c.url)) : undefined;
+      if (c.type === 'journal' || c.type === 'conference' || c.type === 'book') academicSources++;
+      if (known?.peerReviewed) peerReviewed++;
+      if (known?.highImpact) highImpactJournals++;
+      if (c.year && currentYear - c.year <= 2) recentPublications++;
+    }
+
+    return { academicSources, peerReviewed, recentPublications, highImpactJournals };
+  }
+
+  private inferType(source: Source, hostname: string, knownType: CitationType | undefined, text: string): CitationType {
+    if (knownType) return knownType;
+    const url = source.url.toLowerCase();
+    if (ISBN_RE.test(text)) return 'book';
+    if (/\.gov(\.[a-z]{2})?$/.test(hostname) || /\/(reports?|whitepapers?|publications)\//.test(url)) return 'report';
+    if (/\b(journal|proceedings)\b/i.test(text) || DOI_RE.test(url)) return 'journal';
+    if (/\/(news|article|story)\//.test(url) || /^news\./.test(hostname)) return 'news';
+    return 'website';
+  }
+
+  private inferAuthors(text: string): string[] {
+    const etAl = text.match(ET_AL_RE);
+    if (etAl) return [etAl[1].trim(), 'et al.'];
+
+    const byLine = text.match(BY_LINE_RE);
+    if (byLine) {
+      return byLine[1]
+        .split(/\s*(?:,|\band\b|&)\s*/)
+        .map(s => s.trim())
+        .filter(s => s.split(/\s+/).length >= 2)
+        .slice(0, 6);
+    }
+
+    const zh = text.match(ZH_AUTHOR_RE);
+    if (zh) return zh[1].split(/[、，,]/).filter(Boolean);
+
+    return [];
+  }
+
+  // 年份未知时返回 0，格式化时输出 n.d.
+  private inferYear(source: Source, facts: Fact[], text: string): number {
+    const dates = [source.published, ...facts.map(f => f.published)].filter(Boolean) as string[];
+    for (const d of dates) {
+      const year = new Date(d).getFullYear();
+      if (Number.isFinite(year) && year > 1800) return year;
+      const m = d.match(/\b(1[89]\d{2}|20\d{2})\b/);
+      if (m) return Number(m[1]);
+    }
+    const currentYear = new Date().getFullYear();
+    const arxivYear = source.url.match(/arxiv\.org\/(?:abs|pdf)\/(\d{2})\d{2}\./i)?.[1];
+    const candidates = [
+      source.url.match(/\/(19\d{2}|20\d{2})[/-]/)?.[1],
+      arxivYear ? `20${arxivYear}` : undefined,
+      text.match(/\((19\d{2}|20\d{2})\)/)?.[1],
+    ];
+    for (const y of candidates) {
+      const year = Number(y);
+      if (year > 1800 && year <= currentYear) return year;
+    }
+    return 0;
+  }
+
+  private inferDOI(url: string, text: string): string | undefined {
+    let decoded = url;
+    try {
+      decoded = decodeURIComponent(url);
+    } catch {
+      // 不合法的 % 转义，按原始 URL 匹配
+    }
+    const fromUrl = decoded.match(DOI_RE)?.[1];
+    if (fromUrl) return fromUrl;
+    const arxiv = url.match(ARXIV_RE)?.[1];
+    if (arxiv) return `10.48550/arXiv.${arxiv}`;
+    return text.match(DOI_RE)?.[1];
+  }
+
+  private lookupVenue(hostname: string) {
+    const host = hostname.replace(/^www\./, '');
+    for (const [domain, info] of Object.entries(KNOWN_VENUES)) {
+      if (host === domain || host.endsWith('.' + domain)) return info;
+    }
+    return undefined;
+  }
+
+  private hostname(url: string): string {
+    try { return new URL(url).hostname.toLowerCase(); } catch { return ''; }
+  }
+
+  private yearText(c: AcademicCitation): string {
+    return c.year ? String(c.year) : 'n.d.';
+  }
+
+  private locator(c: AcademicCitation): string {
+    if (c.doi) return `https://doi.org/${c.doi}`;
+    return c.url || '';
+  }
+
+  // "Jane Q. Doe" -> "Doe, J. Q."（中文姓名与 et al. 原样保留）
+  private initialsName(name: string, withComma = true): string {
+    if (name === 'et al.' || /[\u4E00-\u9FFF]/.test(name)) return name;
+    const parts = name.split(/\s+/).filter(Boolean);
+    if (parts.length < 2) return name;
+    const last = parts[parts.length - 1];
+    const initials = parts.slice(0, -1).map(p => p[0].toUpperCase() + '.').join(' ');
+    return withComma ? `${last}, ${initials}` : `${last}, ${initials.replace(/\s+/g, '')}`;
+  }
+
+  // MLA / Chicago：第一作者姓在前，其余保持原顺序
+  private mlaAuthors(authors: string[]): string {
+    if (authors.length === 0) return '';
+    const [first, ...rest] = authors;
+    const head = /[\u4E00-\u9FFF]/.test(first) ? first : this.lastFirst(first);
+    if (rest.length === 0) return head;
+    if (rest[0] === 'et al.' || rest.length >= 2) return `${head}, et al`;
+    return `${head}, and ${rest[0]}`;
+  }
+
+  private lastFirst(name: string): string {
+    const parts = name.split(/\s+/).filter(Boolean);
+    if (parts.length < 2) return name;
+    return `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(' ')}`;
+  }
+
+  private joinAuthors(names: string[], sep: string, lastSep: string): string {
+    if (names.length <= 1) return names.join('');
+    if (names[names.length - 1] === 'et al.') return `${names.slice(0, -1).join(sep)} et al.`;
+    return `${names.slice(0, -1).join(sep)}${lastSep}${names[names.length - 1]}`;
+  }
+}
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { CassetteMode, LLMRole, Settings, StageName } from '../types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -28,6 +29,24 @@ console.log(`  - 当前工作目录: ${process.cwd()}`);
 console.log(`  - 根目录 .env 路径: ${rootEnvPath}`);
 console.log(`  - Core目录 .env 路径: ${coreEnvPath}`);
 
+const LLM_ROLES: LLMRole[] = ['router', 'research', 'analyst', 'writer', 'factcheck', 'critic', 'judge', 'embedding'];
+
+// 读取 LLM_PROVIDER_<ROLE>：按代理角色指定 LLM 提供者
+function roleProviders(): Partial<Record<LLMRole, string>> {
+  const out: Partial<Record<LLMRole, string>> = {};
+  for (const role of LLM_ROLES) {
+    const value = process.env[`LLM_PROVIDER_${role.toUpperCase()}`]?.trim();
+    if (value) out[role] = value;
+  }
+  return out;
+}
+
+function parseCassetteMode(value: string | undefined): CassetteMode {
+  const mode = (value ?? 'off').trim() || 'off';
+  if (mode === 'off' || mode === 'record' || mode === 'replay') return mode;
+  throw new Error(`Invalid CASSETTE_MODE "${mode}", expected off | record | replay`);
+}
+
 // 权威来源配置
 export const AUTHORITY_DOMAINS: Record<string, {
   domain: string;
@@ -87,6 +106,23 @@ export const CFG = {
   VALIDATION_MAX_CONCURRENT: Number(process.env.VALIDATION_MAX_CONCURRENT ?? '5'),
   VALIDATION_BATCH_SIZE: Number(process.env.VALIDATION_BATCH_SIZE ?? '3'),
   
+  // 多模型共识（Writer / FactChecker），格式：model[@temperature],...
+  CONSENSUS_ENABLED: (process.env.CONSENSUS_ENABLED ?? '0') !== '0',
+  CONSENSUS_MODELS: process.env.CONSENSUS_MODELS ?? 'gpt-4o@0.2,gpt-4o@0.8,gpt-4o-mini@0.5',
+  
+  // 交叉验证相关度评分：auto | embedding | tfidf；阈值留空则使用评分器内置的校准值
+  SUPPORT_SCORER: process.env.SUPPORT_SCORER ?? 'auto',
+  SUPPORT_THRESHOLD: Number(process.env.SUPPORT_THRESHOLD || NaN),
+  RELATED_THRESHOLD: Number(process.env.RELATED_THRESHOLD || NaN),
+
+  // 事实提取前的段落检索：auto | bm25 | embedding | hybrid（auto 在 embedding 可用时用 hybrid）
+  RETRIEVAL_SCORER: process.env.RETRIEVAL_SCORER ?? 'auto',
+  
+  // 矛盾检测：本地无法确定时交给模型裁判（每个声明最多送审的来源数）
+  NLI_LLM_JUDGE: (process.env.NLI_LLM_JUDGE ?? '1') !== '0',
+  NLI_MODEL: process.env.NLI_MODEL ?? 'gpt-4o-mini',
+  NLI_MAX_JUDGED: Number(process.env.NLI_MAX_JUDGED ?? '4'),
+  
   // 搜索和验证配置 - 大幅减少token使用
   SEARCH_MAX_RESULTS: Number(process.env.SEARCH_MAX_RESULTS ?? '4'),  // 从6减少到4
   FACTCHECK_CLAIMS: Number(process.env.FACTCHECK_CLAIMS ?? '2'),     // 从3减少到2
@@ -95,11 +131,53 @@ export const CFG = {
   // 其他配置
   CACHE_TTL_MS: Number(process.env.CACHE_TTL_MS ?? '600000'),
   NEWS_DAYS: Number(process.env.NEWS_DAYS ?? '7'),
+  // Writer → Critic → 修订循环的轮数上限（Router 规划的 maxIterations 会被限制在此范围内）
+  MAX_ITERATIONS: Math.max(1, Number(process.env.MAX_ITERATIONS ?? '2')),
   MIN_EN_SOURCES: Number(process.env.MIN_EN_SOURCES ?? '3'),
   MAX_PER_DOMAIN: Number(process.env.MAX_PER_DOMAIN ?? '2'),
   QUERY_EXPANSION: (process.env.QUERY_EXPANSION ?? '1') !== '0',
   SEARCH_PARALLEL_NEWS: (process.env.SEARCH_PARALLEL_NEWS ?? '1') !== '0',
+
+  // 搜索提供者：tavily | searxng | fixture | corpus
+  SEARCH_PROVIDER: process.env.SEARCH_PROVIDER ?? 'tavily',
+  SEARXNG_URL: process.env.SEARXNG_URL ?? 'http://localhost:8888',
+  SEARCH_FIXTURE_PATH: process.env.SEARCH_FIXTURE_PATH ?? './search-fixtures.json',
+  SEARCH_CORPUS_DIR: process.env.SEARCH_CORPUS_DIR ?? './corpus',
   MEMORY_PATH: process.env.MEMORY_PATH ?? './memory.jsonl',
+  // 跨会话记忆：检索条数与总开关（请求仍需带 memoryScope 才会读写）
+  MEMORY_ENABLED: (process.env.MEMORY_ENABLED ?? '1') !== '0',
+  MEMORY_TOP_K: Number(process.env.MEMORY_TOP_K ?? '6'),
+  // 对话串：存储目录与保留原文的最近轮数（更早的轮次压缩成摘要）
+  THREADS_DIR: process.env.THREADS_DIR ?? './threads',
+  THREAD_RECENT_TURNS: Number(process.env.THREAD_RECENT_TURNS ?? '3'),
+  // 流程执行记录：结束后的事件日志目录；客户端全部断线后等待重连的时间（逾时即取消流程）
+  RUNS_DIR: process.env.RUNS_DIR ?? './runs',
+  RUN_RESUME_GRACE_MS: Math.max(0, Number(process.env.RUN_RESUME_GRACE_MS ?? '30000')),
+  // LLM 提供者：openai | openai-compatible | mock；LLM_PROVIDER_<ROLE> 可按角色覆盖（如 LLM_PROVIDER_WRITER）
+  LLM_PROVIDER: process.env.LLM_PROVIDER ?? 'openai',
+  LLM_ROLE_PROVIDERS: roleProviders(),
+  // openai-compatible：本地 llama.cpp / vLLM / Ollama 等服务的地址与密钥（多数本地服务不校验密钥）
+  LLM_BASE_URL: process.env.LLM_BASE_URL ?? 'http://localhost:11434/v1',
+  LLM_API_KEY: process.env.LLM_API_KEY ?? '',
+  // mock：脚本文件（JSON 规则数组），未设置时使用内置的确定性回复
+  LLM_MOCK_SCRIPT: process.env.LLM_MOCK_SCRIPT ?? '',
+  // 来源全文：search 之后读取前 N 个来源的网页 / PDF / 纯文本（N 按速度模式），研究与查核改用原文段落
+  PAGE_FETCH_ENABLED: (process.env.PAGE_FETCH_ENABLED ?? '1') !== '0',
+  FETCH_PAGES_FAST: Number(process.env.FETCH_PAGES_FAST ?? '3'),
+  FETCH_PAGES_BAL: Number(process.env.FETCH_PAGES_BAL ?? '6'),
+  FETCH_PAGES_THO: Number(process.env.FETCH_PAGES_THO ?? '8'),
+  PAGE_FETCH_TIMEOUT_MS: Number(process.env.PAGE_FETCH_TIMEOUT_MS ?? '8000'),
+  PAGE_FETCH_MAX_BYTES: Number(process.env.PAGE_FETCH_MAX_BYTES ?? String(5 * 1024 * 1024)),
+  PAGE_MAX_CHARS: Number(process.env.PAGE_MAX_CHARS ?? '20000'),
+  PAGE_FETCH_PER_HOST: Math.max(1, Number(process.env.PAGE_FETCH_PER_HOST ?? '2')),
+  PAGE_CACHE_TTL_MS: Number(process.env.PAGE_CACHE_TTL_MS ?? '3600000'),
+  PAGE_FETCH_RESPECT_ROBOTS: (process.env.PAGE_FETCH_RESPECT_ROBOTS ?? '1') !== '0',
+  PAGE_FETCH_USER_AGENT: process.env.PAGE_FETCH_USER_AGENT ?? 'MultiAgentResearch/1.0',
+  // 默认拒绝解析到内网、本机与链路本地（云端元数据）地址的网址，含重定向的每一跳；1=允许（仅供本地测试）
+  PAGE_FETCH_ALLOW_PRIVATE: process.env.PAGE_FETCH_ALLOW_PRIVATE === '1',
+  // 录制 / 重放：off | record | replay；record 把模型与搜索结果写入 CASSETTE_PATH，replay 只读该文件、不连网
+  CASSETTE_MODE: parseCassetteMode(process.env.CASSETTE_MODE),
+  CASSETTE_PATH: process.env.CASSETTE_PATH ?? './cassettes/default.json',
 };
 
 // 新增：Token 優化配置
@@ -108,10 +186,18 @@ export const TOKEN_OPTIMIZATION = {
   MAX_SOURCES: 5,
   MAX_SOURCE_TITLE_LENGTH: 20,
   MAX_SOURCE_SNIPPET_LENGTH: 30,
+
+  // 來源段落檢索（全文切段，沒有全文的來源以摘要為一段）
+  MAX_PASSAGES: 6,
+  MAX_PASSAGES_PER_SOURCE: 2,
+  MAX_PASSAGE_LENGTH: 400,
   
   // 事實限制
   MAX_FACTS: 3,
   MAX_FACT_LENGTH: 80,
+  // Writer 可引用的事實（依與問題的相關度排序）
+  MAX_WRITER_FACTS: 12,
+  MAX_WRITER_FACT_LENGTH: 160,
   
   // 分析內容限制
   MAX_ANALYSIS_LENGTH: 200,
@@ -119,6 +205,7 @@ export const TOKEN_OPTIMIZATION = {
   // 事實查核限制
   MAX_FACTCHECK_SOURCES: 2,
   MAX_FACTCHECK_TEXT_LENGTH: 400,
+  MAX_FACTCHECK_PASSAGES: 4,
   
   // 評論限制
   MAX_CRITIQUE_TEXT_LENGTH: 300,
@@ -134,26 +221,17 @@ export const TOKEN_OPTIMIZATION = {
 
 // 新增：統一的Pipeline配置管理
 export interface PipelineConfig {
-  enableTokenOptimization?: boolean;
   maxSources?: number;
-  maxFacts?: number;
-  maxAnalysisLength?: number;
-  useMinimalPrompts?: boolean;
   enableStreaming?: boolean;
-  chunkSize?: number;
-  chunkDelay?: number;
+  // 覆寫各速度模式要執行的階段（未指定的模式沿用 PIPELINE_PRESETS）
+  presets?: Partial<Record<Settings['speedMode'], StageName[]>>;
 }
 
 export class PipelineConfigManager {
   private static readonly DEFAULT_CONFIG: Required<PipelineConfig> = {
-    enableTokenOptimization: true,
-    maxSources: TOKEN_OPTIMIZATION.MAX_SOURCES,
-    maxFacts: TOKEN_OPTIMIZATION.MAX_FACTS,
-    maxAnalysisLength: TOKEN_OPTIMIZATION.MAX_ANALYSIS_LENGTH,
-    useMinimalPrompts: TOKEN_OPTIMIZATION.USE_MINIMAL_PROMPTS,
+    maxSources: CFG.SEARCH_MAX_RESULTS,
     enableStreaming: true,
-    chunkSize: 50,
-    chunkDelay: 30
+    presets: {}
   };
 
   static getDefaultConfig(): Required<PipelineConfig> {
@@ -171,16 +249,12 @@ export class PipelineConfigManager {
       errors.push('maxSources 必須至少為 1');
     }
     
-    if (config.maxFacts && config.maxFacts < 1) {
-      errors.push('maxFacts 必須至少為 1');
-    }
-    
-    if (config.chunkSize && config.chunkSize < 10) {
-      errors.push('chunkSize 必須至少為 10');
-    }
-    
-    if (config.chunkDelay && config.chunkDelay < 0) {
-      errors.push('chunkDelay 必須為非負數');
+    for (const [mode, stages] of Object.entries(config.presets ?? {})) {
+      if (!['fast', 'balanced', 'thorough'].includes(mode)) {
+        errors.push(`presets.${mode} 不是有效的速度模式`);
+      } else if (!Array.isArray(stages) || stages.length === 0) {
+        errors.push(`presets.${mode} 至少需要一個階段`);
+      }
     }
     
     return errors;
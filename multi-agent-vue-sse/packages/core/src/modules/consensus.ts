@@ -0,0 +1,108 @@
+import { ModelVote, ModelConsensus, FactCheckReport } from '../types.js';
+import { tokenize, tryParseJSON } from './utils.js';
+
+// 参与投票的模型 / 温度组合
+export interface ConsensusVariant {
+  model: string;
+  temperature?: number;
+}
+
+// 与共识相似度的判定阈值
+const AGREE_THRESHOLD = 0.3;
+const DISAGREE_THRESHOLD = 0.12;
+
+// 解析 "gpt-4o@0.2,gpt-4o-mini" 形式的配置；未指定温度时沿用代理默认温度
+export function parseConsensusModels(spec: string): ConsensusVariant[] {
+  return spec
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(item => {
+      const [model, temp] = item.split('@').map(s => s.trim());
+      const temperature = temp ? Number(temp) : undefined;
+      return { model, temperature: Number.isFinite(temperature) ? temperature : undefined };
+    });
+}
+
+// 文本相似度：词集合的 Jaccard 系数
+export function textSimilarity(a: string, b: string): number {
+  const ta = new Set(tokenize(a));
+  const tb = new Set(tokenize(b));
+  if (ta.size === 0 && tb.size === 0) return 1;
+  let inter = 0;
+  for (const t of ta) if (tb.has(t)) inter++;
+  const union = ta.size + tb.size - inter;
+  return union === 0 ? 0 : inter / union;
+}
+
+// 事实查核相似度：对应主张的判定一致比例
+export function factCheckSimilarity(a: string, b: string): number {
+  const ra = tryParseJSON(a) as FactCheckReport | null;
+  const rb = tryParseJSON(b) as FactCheckReport | null;
+  const ca = ra?.claims ?? [];
+  const cb = rb?.claims ?? [];
+  if (ca.length === 0 || cb.length === 0) return ca.length === cb.length ? 1 : 0;
+
+  let same = 0;
+  ca.forEach((claim, i) => {
+    // 先按主张文本匹配，匹配不到时按顺序对应
+    const match = cb.find(c => textSimilarity(c.text, claim.text) >= 0.5) ?? cb[i];
+    if (match && match.verdict === claim.verdict) same++;
+  });
+  return same / Math.max(ca.length, cb.length);
+}
+
+export function voteKey(vote: ModelVote): string {
+  return `${vote.model}@${vote.metadata.temperature}`;
+}
+
+// 多模型共识构建器
+export class ConsensusBuilder {
+  // 以与其他投票平均相似度最高的回答（medoid）作为共识
+  build(
+    votes: ModelVote[],
+    similarity: (a: string, b: string) => number = textSimilarity,
+    render: (response: string) => string = r => r
+  ): { consensus: ModelConsensus; votes: ModelVote[]; winner: number } {
+    if (votes.length === 0) {
+      throw new Error('No votes to build consensus from');
+    }
+
+    const n = votes.length;
+    const matrix = votes.map((a, i) => votes.map((b, j) => (i === j ? 1 : similarity(a.response, b.response))));
+    const meanSim = matrix.map(row => (n === 1 ? 1 : (row.reduce((s, v) => s + v, 0) - 1) / (n - 1)));
+    const winner = meanSim.indexOf(Math.max(...meanSim));
+
+    const modelAgreement: ModelConsensus['modelAgreement'] = {};
+    const dissentingViews: string[] = [];
+    let agreeVotes = 0, disagreeVotes = 0, neutralVotes = 0;
+
+    const scored = votes.map((vote, i) => {
+      const sim = matrix[winner][i];
+      const stance = sim >= AGREE_THRESHOLD ? 'agree' : sim < DISAGREE_THRESHOLD ? 'disagree' : 'neutral';
+      modelAgreement[voteKey(vote)] = stance;
+      if (stance === 'agree') agreeVotes++;
+      else if (stance === 'disagree') {
+        disagreeVotes++;
+        dissentingViews.push(`${voteKey(vote)}: ${render(vote.response).slice(0, 200)}`);
+      } else neutralVotes++;
+      return { ...vote, confidence: Math.round(meanSim[i] * 100) / 100 };
+    });
+
+    const others = matrix[winner].filter((_, i) => i !== winner);
+    const confidence = others.length ? others.reduce((s, v) => s + v, 0) / others.length : 1;
+
+    return {
+      consensus: {
+        consensus: render(votes[winner].response),
+        confidence: Math.round(confidence * 100) / 100,
+        agreement: Math.round((agreeVotes / n) * 100) / 100,
+        dissentingViews,
+        modelAgreement,
+        votingResults: { totalVotes: n, agreeVotes, disagreeVotes, neutralVotes },
+      },
+      votes: scored,
+      winner,
+    };
+  }
+}
@@ -0,0 +1,297 @@
+import { ContradictingSource } from '../types.js';
+import { CFG } from './config.js';
+import { tokenize } from './utils.js';
+import { extractNumbers } from './stats.js';
+
+export type NliLabel = 'entailment' | 'neutral' | 'contradiction';
+
+// 语义相关度分档（由支持度评分器给出）：low 视为无关，不做矛盾判定
+export type Relevance = 'high' | 'medium' | 'low';
+
+export interface NliJudgement {
+  label: NliLabel;
+  confidence: number;
+  method: 'local' | 'llm';
+  conflictType?: ContradictingSource['conflictType'];
+  span?: string;        // 来源中与声明冲突的原文片段
+  claimSpan?: string;   // 声明中对应的片段
+}
+
+// 本地检测结果；ambiguous 表示需要交给模型裁判
+export interface LocalCheck {
+  judgement: NliJudgement;
+  ambiguous: boolean;
+}
+
+// 模型裁判：对每段文字给出蕴含 / 中性 / 矛盾
+export interface ContradictionJudge {
+  judge(claim: string, passages: string[]): Promise<NliJudgement[]>;
+}
+
+// 否定词（中文只收双字以上，避免「不同」「非常」之类误判）
+const NEGATION_EN = /\b(?:not|no|never|none|neither|nor|without|cannot|denied|denies|false|fails?|failed)\b|n't\b/gi;
+const NEGATION_ZH = /不是|不会|不會|不能|不再|不存在|没有|沒有|并非|並非|并未|並未|从未|從未|未曾|尚未|未能|无法|無法|否认|否認/g;
+
+// 忽略否定词与数字后的内容词，用于判断两句是否在谈同一件事
+const IGNORED_TOKENS = new Set([
+  'the', 'of', 'and', 'to', 'in', 'is', 'are', 'was', 'were', 'be', 'for', 'on', 'that', 'this', 'with',
+  'as', 'by', 'at', 'an', 'it', 'its', 'from', 'or', 'has', 'have', 'had', 'will', 'can',
+  'not', 'no', 'never', 'none', 'neither', 'nor', 'without', 'cannot', 'percent',
+]);
+
+// 数值视为一致的相对误差
+const NUMBER_TOLERANCE = 0.05;
+
+function contentTokens(text: string): Set<string> {
+  return new Set(tokenize(text).filter(t => !IGNORED_TOKENS.has(t) && !/^\d/.test(t)));
+}
+
+function splitSentences(text: string): string[] {
+  return (text || '')
+    .split(/(?<=[.!?;])\s+|(?<=[。！？；])\s*|\n+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+function negationCount(text: string): number {
+  return (text.match(NEGATION_EN)?.length ?? 0) + (text.match(NEGATION_ZH)?.length ?? 0);
+}
+
+interface DateValue { year: number; month?: number; day?: number; raw: string; index: number }
+
+const DATE_RE = /((?:19|20)\d{2})(?:\s*[-/.年]\s*(\d{1,2})(?:\s*[-/.月]\s*(\d{1,2}))?)?/g;
+// 英文写法：May 14, 2023 / 14 May 2023 / May 2023
+const MONTH_NAMES = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const WRITTEN_DATE_RE = new RegExp(
+  `\\b(?:(${MONTH_NAMES})\\.?\\s+(?:(\\d{1,2})(?:st|nd|rd|th)?,?\\s+)?((?:19|20)\\d{2})` +
+  `|(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAMES})\\.?,?\\s+((?:19|20)\\d{2}))\\b`,
+  'gi',
+);
+const MONTH_INDEX = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toDate(year: string, month: number | undefined, day: string | undefined, raw: string, index: number): DateValue {
+  const d = day ? Number(day) : undefined;
+  return {
+    year: Number(year),
+    month: month && month <= 12 ? month : undefined,
+    day: month && month <= 12 && d && d <= 31 ? d : undefined,
+    raw,
+    index,
+  };
+}
+
+function extractDates(text: string): DateValue[] {
+  const dates: DateValue[] = [];
+  let rest = text || '';
+  // 先取英文写法，再在遮掉这些片段的文字上找数字写法，避免同一个日期算两次
+  for (const m of rest.matchAll(WRITTEN_DATE_RE)) {
+    const name = (m[1] ?? m[5]).toLowerCase().slice(0, 3);
+    dates.push(toDate(m[3] ?? m[6], MONTH_INDEX.indexOf(name) + 1, m[2] ?? m[4], m[0], m.index!));
+  }
+  rest = rest.replace(WRITTEN_DATE_RE, w => ' '.repeat(w.length));
+  for (const m of rest.matchAll(DATE_RE)) {
+    // 前后紧接数字的不是年份（例如 120230）
+    const before = rest[m.index! - 1];
+    const after = rest[m.index! + m[0].length];
+    if ((before && /\d/.test(before)) || (after && /\d/.test(after))) continue;
+    dates.push(toDate(m[1], m[2] ? Number(m[2]) : undefined, m[3], m[0], m.index!));
+  }
+  return dates;
+}
+
+// 遮掉日期片段，数字比对时不把日期里的月、日当成数值
+function withoutDates(text: string): string {
+  let masked = text || '';
+  for (const d of extractDates(masked)) {
+    masked = masked.slice(0, d.index) + ' '.repeat(d.raw.length) + masked.slice(d.index + d.raw.length);
+  }
+  return masked;
+}
+
+// 以双方都给出的最细粒度比较日期
+function sameDate(a: DateValue, b: DateValue): boolean {
+  if (a.year !== b.year) return false;
+  if (a.month === undefined || b.month === undefined) return true;
+  if (a.month !== b.month) return false;
+  return a.day === undefined || b.day === undefined || a.day === b.day;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// 矛盾检测器：本地检查数字、日期与否定冲突，无法确定时交给模型裁判
+export class ContradictionDetector {
+  private judge?: ContradictionJudge;
+  private maxJudged: number;
+
+  constructor(judge?: ContradictionJudge, maxJudged: number = CFG.NLI_MAX_JUDGED) {
+    this.judge = judge;
+    this.maxJudged = maxJudged;
+  }
+
+  setJudge(judge?: ContradictionJudge): void {
+    this.judge = judge;
+  }
+
+  // 本地检测：逐句比对与声明谈论同一件事的句子
+  detectLocal(claim: string, doc: string, relevance: Relevance = 'medium'): LocalCheck {
+    const claimTokens = contentTokens(claim);
+    const topical = splitSentences(doc)
+      .map(sentence => ({ sentence, overlap: this.overlap(claimTokens, sentence) }))
+      .filter(s => s.overlap >= 0.3)
+      .sort((a, b) => b.overlap - a.overlap);
+
+    if (topical.length === 0) {
+      // 找不到谈同一件事的句子（可能是改写或跨语言），交给模型判断
+      return {
+        judgement: { label: relevance === 'high' ? 'entailment' : 'neutral', confidence: 0.5, method: 'local' },
+        ambiguous: relevance !== 'low',
+      };
+    }
+
+    const conflicts = topical
+      .map(({ sentence, overlap }) => this.findConflict(claim, sentence, overlap))
+      .filter((c): c is LocalCheck => c !== null)
+      .sort((a, b) => b.judgement.confidence - a.judgement.confidence);
+    if (conflicts.length > 0) {
+      // 有明确冲突时优先采用；否则取信心最高的可疑冲突
+      return conflicts.find(c => !c.ambiguous) ?? conflicts[0];
+    }
+
+    const best = topical[0];
+    const claimNumbers = extractNumbers(withoutDates(claim));
+    const numbersMatch = claimNumbers.length === 0 || claimNumbers.every(c =>
+      extractNumbers(withoutDates(best.sentence)).some(n => n.unit === c.unit && this.closeEnough(c.value, n.value))
+    );
+    if (best.overlap >= 0.6 && numbersMatch) {
+      return {
+        judgement: { label: 'entailment', confidence: round2(Math.min(0.9, best.overlap)), method: 'local', span: best.sentence },
+        ambiguous: false,
+      };
+    }
+    return {
+      judgement: { label: relevance === 'high' ? 'entailment' : 'neutral', confidence: 0.5, method: 'local' },
+      ambiguous: relevance !== 'high',
+    };
+  }
+
+  // 对一组来源文字分类；相关度 low 的来源直接视为无关（中性）
+  async classify(claim: string, docs: string[], relevance: Relevance[]): Promise<NliJudgement[]> {
+    const checks = docs.map((doc, i) => {
+      if ((relevance[i] ?? 'low') === 'low') {
+        return { judgement: { label: 'neutral' as const, confidence: 0.8, method: 'local' as const }, ambiguous: false };
+      }
+      return this.detectLocal(claim, doc, relevance[i]);
+    });
+
+    const pending = checks
+      .map((c, i) => ({ ...c, index: i }))
+      .filter(c => c.ambiguous)
+      .slice(0, this.maxJudged);
+    if (!this.judge || pending.length === 0) {
+      return checks.map(c => c.judgement);
+    }
+
+    try {
+      const verdicts = await this.judge.judge(claim, pending.map(p => docs[p.index]));
+      pending.forEach((p, k) => {
+        const verdict = verdicts[k];
+        if (!verdict) return;
+        const judgement = { ...verdict, method: 'llm' as const };
+        if (judgement.label === 'contradiction') {
+          // 模型引用的片段不在原文中时，退回本地找到的句子
+          const doc = docs[p.index];
+          if (!judgement.span || !doc.includes(judgement.span)) {
+            judgement.span = p.judgement.span ?? this.mostRelevantSentence(claim, doc);
+          }
+          judgement.conflictType = judgement.conflictType ?? p.judgement.conflictType ?? 'semantic';
+        }
+        checks[p.index] = { judgement, ambiguous: false };
+      });
+    } catch (error) {
+      console.warn('[Contradiction] 模型裁判失败，沿用本地判定:', error instanceof Error ? error.message : error);
+    }
+    return checks.map(c => c.judgement);
+  }
+
+  // 比对单句：数字、日期、否定依次检查
+  private findConflict(claim: string, sentence: string, overlap: number): LocalCheck | null {
+    const claimNumbers = extractNumbers(withoutDates(claim));
+    const sentenceNumbers = extractNumbers(withoutDates(sentence));
+    for (const unit of ['%', ''] as const) {
+      const a = claimNumbers.filter(n => n.unit === unit);
+      const b = sentenceNumbers.filter(n => n.unit === unit);
+      if (a.length === 0 || b.length === 0) continue;
+      if (a.some(x => b.some(y => this.closeEnough(x.value, y.value)))) continue;
+      return {
+        judgement: {
+          label: 'contradiction',
+          confidence: round2(Math.min(0.9, 0.4 + overlap * 0.5)),
+          method: 'local',
+          conflictType: 'number',
+          span: sentence,
+          claimSpan: a.map(n => n.raw).join(', '),
+        },
+        // 同一句可能在描述不同口径的数字
+        ambiguous: overlap < 0.5,
+      };
+    }
+
+    const claimDates = extractDates(claim);
+    const sentenceDates = extractDates(sentence);
+    if (claimDates.length > 0 && sentenceDates.length > 0 &&
+        !claimDates.some(a => sentenceDates.some(b => sameDate(a, b)))) {
+      return {
+        judgement: {
+          label: 'contradiction',
+          confidence: round2(Math.min(0.85, 0.3 + overlap * 0.5)),
+          method: 'local',
+          conflictType: 'date',
+          span: sentence,
+          claimSpan: claimDates.map(d => d.raw).join(', '),
+        },
+        // 不同年份也可能是不同事件
+        ambiguous: overlap < 0.6,
+      };
+    }
+
+    if (overlap >= 0.5 && negationCount(claim) % 2 !== negationCount(sentence) % 2) {
+      return {
+        judgement: {
+          label: 'contradiction',
+          confidence: round2(Math.min(0.85, 0.4 + overlap * 0.4)),
+          method: 'local',
+          conflictType: 'negation',
+          span: sentence,
+        },
+        ambiguous: overlap < 0.7,
+      };
+    }
+    return null;
+  }
+
+  private mostRelevantSentence(claim: string, doc: string): string {
+    const claimTokens = contentTokens(claim);
+    const sentences = splitSentences(doc);
+    let best = sentences[0] ?? doc;
+    let bestOverlap = -1;
+    for (const sentence of sentences) {
+      const o = this.overlap(claimTokens, sentence);
+      if (o > bestOverlap) { best = sentence; bestOverlap = o; }
+    }
+    return best.slice(0, 300);
+  }
+
+  // 声明内容词在句中出现的比例
+  private overlap(claimTokens: Set<string>, sentence: string): number {
+    if (claimTokens.size === 0) return 0;
+    const tokens = contentTokens(sentence);
+    let hits = 0;
+    for (const t of claimTokens) if (tokens.has(t)) hits++;
+    return hits / claimTokens.size;
+  }
+
+  private closeEnough(a: number, b: number): boolean {
+    if (a === b) return true;
+    return Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b)) <= NUMBER_TOLERANCE;
+  }
+}
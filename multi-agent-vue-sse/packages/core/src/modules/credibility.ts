@@ -1,15 +1,36 @@
-import { Source, SourceAuthority, CrossValidationResult, UncertaintyAssessment, CredibilityScore } from '../types.js';
+import { Source, SourceAuthority, CrossValidationResult, ContradictingSource, UncertaintyAssessment, CredibilityScore, HypothesisReport, DataQualityReport } from '../types.js';
 import { AUTHORITY_DOMAINS } from './config.js';
 import { ValidationCache, ParallelProcessor } from './cache.js';
+import { SupportScorer, createSupportScorer } from './similarity.js';
+import { ContradictionDetector, ContradictionJudge, Relevance } from './contradiction.js';
 
 // 可信度评估系统
 export class CredibilityEvaluator {
   private validationCache: ValidationCache;
   private parallelProcessor: ParallelProcessor;
+  private supportScorer: SupportScorer;
+  private contradictionDetector: ContradictionDetector;
 
-  constructor() {
+  constructor(
+    supportScorer: SupportScorer = createSupportScorer(),
+    contradictionDetector: ContradictionDetector = new ContradictionDetector()
+  ) {
     this.validationCache = new ValidationCache(1000, 3600000);
     this.parallelProcessor = new ParallelProcessor(5);
+    this.supportScorer = supportScorer;
+    this.contradictionDetector = contradictionDetector;
+  }
+
+  // 切换支持度评分器（例如使用校准后的阈值）
+  setSupportScorer(scorer: SupportScorer): void {
+    this.supportScorer = scorer;
+    this.validationCache.clear();
+  }
+
+  // 设置矛盾检测的模型裁判（未设置时只做本地检测）
+  setContradictionJudge(judge?: ContradictionJudge): void {
+    this.contradictionDetector.setJudge(judge);
+    this.validationCache.clear();
   }
 
   // 计算来源质量分数
@@ -116,22 +137,36 @@ export class CredibilityEvaluator {
   private async validateClaim(claim: string, sources: Source[]): Promise<CrossValidationResult> {
     console.log(`[ValidateClaim] 验证声明: "${claim}"`);
     const supportingSources: Source[] = [];
-    const contradictingSources: Source[] = [];
+    const contradictingSources: ContradictingSource[] = [];
+    const docs = sources.map(s => `${s.title || ''}\n${s.snippet || ''}`);
+    
+    // 语义相关度：只决定来源是否在谈同一件事，低相关度视为无关而非矛盾
+    const { scorer, scores, thresholds } = await this.supportScorer.score(claim, docs);
+    console.log(`[ValidateClaim] 评分器: ${scorer}，阈值: 高度相关>=${thresholds.support}，无关<${thresholds.related}`);
+    const relevance: Relevance[] = scores.map(score =>
+      score >= thresholds.support ? 'high' : score >= thresholds.related ? 'medium' : 'low'
+    );
+    
+    // 蕴含 / 中性 / 矛盾判定（本地检测数字、日期、否定冲突，必要时由模型裁判）
+    const judgements = await this.contradictionDetector.classify(claim, docs, relevance);
     
-    // 分析来源对声明的支持程度
     for (let i = 0; i < sources.length; i++) {
       const source = sources[i];
-      const supportLevel = this.analyzeSourceSupport(claim, source);
-      console.log(`[ValidateClaim] 来源${i + 1} "${source.title}" 支持度: ${supportLevel.toFixed(3)}`);
+      const judgement = judgements[i];
+      console.log(`[ValidateClaim] 来源${i + 1} "${source.title}" 相关度: ${(scores[i] ?? 0).toFixed(3)}，判定: ${judgement.label}（${judgement.method}）`);
       
-      if (supportLevel > 0.45) {  // 降低支持阈值，让更多来源被归类为支持
+      if (judgement.label === 'entailment') {
         supportingSources.push(source);
-        console.log(`[ValidateClaim] -> 归类为支持来源`);
-      } else if (supportLevel < 0.25) {  // 提高矛盾阈值，减少误判
-        contradictingSources.push(source);
-        console.log(`[ValidateClaim] -> 归类为矛盾来源`);
-      } else {
-        console.log(`[ValidateClaim] -> 归类为中性来源`);
+      } else if (judgement.label === 'contradiction') {
+        contradictingSources.push({
+          ...source,
+          span: judgement.span || source.snippet || source.title || '',
+          claimSpan: judgement.claimSpan,
+          conflictType: judgement.conflictType ?? 'semantic',
+          detectedBy: judgement.method,
+          conflictConfidence: judgement.confidence,
+        });
+        console.log(`[ValidateClaim] -> 矛盾片段: "${judgement.span}"`);
       }
     }
     
@@ -173,127 +208,6 @@ export class CredibilityEvaluator {
     };
   }
 
-  // 分析来源对声明的支持程度
-  private analyzeSourceSupport(claim: string, source: Source): number {
-    const content = (source.title || '') + ' ' + (source.snippet || '');
-    const claimWords = claim.toLowerCase().split(/\s+/);
-    const contentWords = content.toLowerCase().split(/\s+/);
-    
-    console.log(`[AnalyzeSupport] 分析声明: "${claim.substring(0, 50)}..."`);
-    console.log(`[AnalyzeSupport] 来源内容: "${content.substring(0, 100)}..."`);
-    
-    // 改进的语义匹配算法
-    let semanticScore = 0;
-    
-    // 1. 关键词匹配（权重：0.4）
-    let keywordMatches = 0;
-    // 改进：提取更多有意义的关键词，包括短词
-    const importantWords = claimWords.filter(word => 
-      word.length > 2 && 
-      !['的', '在', '和', '与', '及', '等', '各', '中', '有', '是', '为', '使', '能', '可以', '具有', '展现', '显示', '表明', '说明', '通过', '分析', '理解', '深入', '更', '最', '非常', '显著', '重要', '核心', '技术', '应用', '价值', '潜力', '趋势', '发展', '现状', '未来'].includes(word)
-    );
-    
-    for (const word of importantWords) {
-      // 改进：使用更灵活的匹配（包含关系）
-      if (content.toLowerCase().includes(word.toLowerCase())) {
-        keywordMatches++;
-      }
-    }
-    const keywordScore = importantWords.length > 0 ? keywordMatches / importantWords.length : 0;
-    semanticScore += keywordScore * 0.4;
-    console.log(`[AnalyzeSupport] 关键词匹配: ${keywordMatches}/${importantWords.length} = ${keywordScore.toFixed(3)} (贡献: ${(keywordScore * 0.4).toFixed(3)})`);
-    console.log(`[AnalyzeSupport] 重要词汇: [${importantWords.join(', ')}]`);
-    
-    // 2. 主题相关性（权重：0.3）
-    const claimTheme = this.extractTheme(claim);
-    const contentTheme = this.extractTheme(content);
-    const themeScore = claimTheme === contentTheme ? 1.0 : 0.3;
-    semanticScore += themeScore * 0.3;
-    console.log(`[AnalyzeSupport] 主题相关性: ${claimTheme} vs ${contentTheme} = ${themeScore.toFixed(3)} (贡献: ${(themeScore * 0.3).toFixed(3)})`);
-    
-    // 3. 情感一致性（权重：0.2）
-    const claimSentiment = this.analyzeSentiment(claim);
-    const contentSentiment = this.analyzeSentiment(content);
-    const sentimentScore = claimSentiment === contentSentiment ? 1.0 : 0.5;
-    semanticScore += sentimentScore * 0.2;
-    console.log(`[AnalyzeSupport] 情感一致性: ${claimSentiment} vs ${contentSentiment} = ${sentimentScore.toFixed(3)} (贡献: ${(sentimentScore * 0.2).toFixed(3)})`);
-    
-    // 4. 事实性词汇匹配（权重：0.1）
-    const factWords = ['data', 'research', 'study', 'survey', 'report', 'analysis', 'statistics'];
-    const factScore = factWords.some(word => content.toLowerCase().includes(word)) ? 1.0 : 0.5;
-    semanticScore += factScore * 0.1;
-    console.log(`[AnalyzeSupport] 事实性词汇: ${factScore.toFixed(3)} (贡献: ${(factScore * 0.1).toFixed(3)})`);
-    
-    const finalScore = Math.max(0, Math.min(1, semanticScore));
-    console.log(`[AnalyzeSupport] 最终分数: ${finalScore.toFixed(3)}`);
-    
-    return finalScore;
-  }
-  
-  // 提取主题
-  private extractTheme(text: string): string {
-    const lowerText = text.toLowerCase();
-    
-    // 技术相关主题
-    if (lowerText.includes('ai') || lowerText.includes('人工智能') || lowerText.includes('技术') || 
-        lowerText.includes('计算机') || lowerText.includes('软件') || lowerText.includes('算法') ||
-        lowerText.includes('机器学习') || lowerText.includes('深度学习') || lowerText.includes('自动化')) {
-      return 'technology';
-    }
-    
-    // 医疗健康主题
-    if (lowerText.includes('医疗') || lowerText.includes('健康') || lowerText.includes('医院') || 
-        lowerText.includes('疾病') || lowerText.includes('治疗') || lowerText.includes('药物')) {
-      return 'health';
-    }
-    
-    // 教育主题
-    if (lowerText.includes('教育') || lowerText.includes('学校') || lowerText.includes('学习') || 
-        lowerText.includes('培训') || lowerText.includes('课程') || lowerText.includes('学生')) {
-      return 'education';
-    }
-    
-    // 商业主题
-    if (lowerText.includes('商业') || lowerText.includes('企业') || lowerText.includes('市场') || 
-        lowerText.includes('经济') || lowerText.includes('金融') || lowerText.includes('投资')) {
-      return 'business';
-    }
-    
-    // 科学主题
-    if (lowerText.includes('科学') || lowerText.includes('研究') || lowerText.includes('实验') || 
-        lowerText.includes('数据') || lowerText.includes('分析') || lowerText.includes('发现')) {
-      return 'science';
-    }
-    
-    // 制造业主题
-    if (lowerText.includes('制造') || lowerText.includes('工业') || lowerText.includes('生产') || 
-        lowerText.includes('工厂') || lowerText.includes('设备') || lowerText.includes('工艺')) {
-      return 'manufacturing';
-    }
-    
-    return 'general';
-  }
-  
-  // 分析情感
-  private analyzeSentiment(text: string): 'positive' | 'negative' | 'neutral' {
-    const positiveWords = ['good', 'great', 'excellent', 'positive', 'benefit', 'improve', 'success'];
-    const negativeWords = ['bad', 'poor', 'negative', 'harm', 'damage', 'failure', 'problem'];
-    
-    const lowerText = text.toLowerCase();
-    let positiveCount = 0;
-    let negativeCount = 0;
-    
-    for (const word of positiveWords) {
-      if (lowerText.includes(word)) positiveCount++;
-    }
-    for (const word of negativeWords) {
-      if (lowerText.includes(word)) negativeCount++;
-    }
-    
-    if (positiveCount > negativeCount) return 'positive';
-    if (negativeCount > positiveCount) return 'negative';
-    return 'neutral';
-  }
 
   // 计算置信度
   private calculateConfidence(supporting: Source[], contradicting: Source[]): number {
@@ -328,7 +242,12 @@ export class CredibilityEvaluator {
   }
 
   // 评估不确定性
-  assessUncertainty(claims: string[], sources: Source[]): UncertaintyAssessment {
+  assessUncertainty(
+    claims: string[], 
+    sources: Source[], 
+    crossValidationResults: CrossValidationResult[] = [], 
+    hypothesisReport?: HypothesisReport
+  ): UncertaintyAssessment {
     const uncertaintyFactors: string[] = [];
     const alternativeHypotheses: string[] = [];
     
@@ -341,10 +260,29 @@ export class CredibilityEvaluator {
       uncertaintyFactors.push('来源质量较低');
     }
     
-    // 生成替代假设
-    if (claims.length > 0) {
-      alternativeHypotheses.push('可能存在其他解释');
-      alternativeHypotheses.push('数据可能不完整');
+    // 替代假设：来自假设检验（模型提出且未被否定的假设、被否定的原主张）
+    if (hypothesisReport) {
+      for (const test of hypothesisReport.tests) {
+        if (test.testMethod === 'logical' && test.conclusion !== 'rejected') {
+          alternativeHypotheses.push(test.hypothesis);
+        } else if (test.testMethod !== 'logical' && test.conclusion === 'rejected') {
+          alternativeHypotheses.push(`「${test.hypothesis}」不成立`);
+        }
+      }
+      const inconclusive = hypothesisReport.tests.filter(t => t.conclusion === 'inconclusive').length;
+      if (inconclusive > 0) {
+        uncertaintyFactors.push(`${inconclusive} 项假设检验无定论`);
+      }
+    } else {
+      // 没有检验结果时，以存在矛盾来源的声明作为替代假设
+      for (const result of crossValidationResults) {
+        if (result.consensus === 'conflicting') {
+          const [first] = result.contradictingSources;
+          alternativeHypotheses.push(first
+            ? `「${result.claim}」可能不成立（${first.title || first.url}：「${first.span.slice(0, 80)}」）`
+            : `「${result.claim}」可能不成立`);
+        }
+      }
     }
     
     // 计算整体置信度
@@ -373,7 +311,7 @@ export class CredibilityEvaluator {
     return {
       confidence,
       uncertaintyFactors,
-      alternativeHypotheses,
+      alternativeHypotheses: [...new Set(alternativeHypotheses)].slice(0, 5),
       recommendation,
       riskLevel
     };
@@ -445,7 +383,8 @@ export class CredibilityEvaluator {
   calculateCredibilityScore(
     sources: Source[], 
     facts: string[], 
-    crossValidationResults: CrossValidationResult[]
+    crossValidationResults: CrossValidationResult[],
+    dataQualityReport?: DataQualityReport
   ): CredibilityScore {
     const sourceQuality = this.calculateSourceQuality(sources);
     const factChecking = this.calculateFactCheckingScore(facts, sources);
@@ -453,13 +392,21 @@ export class CredibilityEvaluator {
     const temporalValidity = this.calculateTemporalValidity(sources);
     const authorityWeight = this.calculateAuthorityWeight(sources);
     
-    // 计算综合分数
-    const overall = Math.max(0, Math.min(100, Math.round(
-      (sourceQuality * 0.25) +
-      (factChecking * 0.25) +
-      (crossValidation * 0.25) +
-      (temporalValidity * 0.15) +
-      (authorityWeight * 0.10)
+    const dataQuality = dataQualityReport?.overallScore;
+    
+    // 计算综合分数（有数据质量评估时，从来源质量与事实查核各让出 5%）
+    const overall = Math.max(0, Math.min(100, Math.round(dataQuality === undefined
+      ? (sourceQuality * 0.25) +
+        (factChecking * 0.25) +
+        (crossValidation * 0.25) +
+        (temporalValidity * 0.15) +
+        (authorityWeight * 0.10)
+      : (sourceQuality * 0.20) +
+        (factChecking * 0.20) +
+        (crossValidation * 0.25) +
+        (temporalValidity * 0.15) +
+        (authorityWeight * 0.10) +
+        (dataQuality * 0.10)
     )));
     
     // 生成建议和警告
@@ -491,6 +438,13 @@ export class CredibilityEvaluator {
       warnings.push('权威性来源不足');
     }
     
+    if (dataQualityReport) {
+      warnings.push(...dataQualityReport.issues.critical);
+      if (dataQualityReport.overallScore < 70) {
+        recommendations.push('建议改善数据质量（见数据质量报告）');
+      }
+    }
+    
     return {
       overall,
       breakdown: {
@@ -498,7 +452,8 @@ export class CredibilityEvaluator {
         factChecking,
         crossValidation,
         temporalValidity,
-        authorityWeight
+        authorityWeight,
+        ...(dataQuality !== undefined && { dataQuality })
       },
       recommendations,
       warnings
@@ -0,0 +1,262 @@
+import { Source, Fact, DataQualityMetrics, DataQualityReport } from '../types.js';
+import { tokenize } from './utils.js';
+import { extractNumbers } from './stats.js';
+
+// 各指标在总分中的权重
+const METRIC_WEIGHTS: Record<keyof DataQualityMetrics, number> = {
+  completeness: 0.15,
+  accuracy: 0.2,
+  consistency: 0.15,
+  timeliness: 0.1,
+  reliability: 0.15,
+  validity: 0.1,
+  uniqueness: 0.1,
+  accessibility: 0.05,
+};
+
+// 词集合重叠率（以 a 为基准）
+function overlap(a: string, b: string): number {
+  const ta = new Set(tokenize(a));
+  if (ta.size === 0) return 0;
+  const tb = new Set(tokenize(b));
+  let hits = 0;
+  for (const t of ta) if (tb.has(t)) hits++;
+  return hits / ta.size;
+}
+
+// 规范化 URL，用于比对事实来源与重复来源
+function normalizeUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    u.hash = '';
+    return `${u.hostname.replace(/^www\./, '').toLowerCase()}${u.pathname.replace(/\/+$/, '')}${u.search}`;
+  } catch {
+    return (url || '').trim().toLowerCase();
+  }
+}
+
+// 本地语料（file:）与附加文件（document:）同样视为可访问
+function isFetchableUrl(url: string): boolean {
+  try { return /^(https?|file|document):$/.test(new URL(url).protocol); } catch { return false; }
+}
+
+function isValidDate(s?: string): boolean {
+  return !!s && Number.isFinite(new Date(s).getTime());
+}
+
+const pct = (n: number, total: number) => (total === 0 ? 0 : Math.round((n / total) * 100));
+
+// 数据质量评估器
+export class DataQualityEvaluator {
+  evaluate(sources: Source[], facts: Fact[]): DataQualityReport {
+    const issues: DataQualityReport['issues'] = { critical: [], major: [], minor: [] };
+    const recommendations: string[] = [];
+
+    if (sources.length === 0) issues.critical.push('没有任何来源');
+    if (facts.length === 0) issues.critical.push('没有抽取到任何事实');
+
+    const byUrl = new Map<string, Source>();
+    for (const s of sources) {
+      const key = normalizeUrl(s.url);
+      if (!byUrl.has(key)) byUrl.set(key, s);
+    }
+    // 事实的 source 可能是 URL，也可能是来源标题
+    const sourceOf = (f: Fact): Source | undefined => {
+      const byLink = byUrl.get(normalizeUrl(f.source));
+      if (byLink) return byLink;
+      const name = (f.source || '').trim().toLowerCase();
+      if (name.length < 6) return undefined;
+      return sources.find(s => {
+        const title = (s.title || '').trim().toLowerCase();
+        return title.length >= 6 && (title.includes(name) || name.includes(title));
+      });
+    };
+
+    const metrics: DataQualityMetrics = {
+      completeness: this.completeness(sources, facts, issues),
+      accuracy: this.accuracy(facts, sourceOf, issues),
+      consistency: this.consistency(facts, sourceOf, issues),
+      timeliness: this.timeliness(sources, issues),
+      reliability: this.reliability(facts, sources, issues),
+      validity: this.validity(sources, facts, sourceOf, issues),
+      uniqueness: this.uniqueness(sources, facts, byUrl, issues),
+      accessibility: this.accessibility(sources, issues),
+    };
+
+    const overallScore = Math.round(
+      (Object.keys(METRIC_WEIGHTS) as Array<keyof DataQualityMetrics>)
+        .reduce((sum, k) => sum + metrics[k] * METRIC_WEIGHTS[k], 0)
+    );
+
+    if (metrics.accuracy < 60) recommendations.push('要求研究代理引用来源中的原文作为证据');
+    if (metrics.validity < 80) recommendations.push('核对事实标注的来源链接是否存在于检索结果中');
+    if (metrics.uniqueness < 80) recommendations.push('去除重复来源，扩大来源多样性');
+    if (metrics.reliability < 50) recommendations.push('寻找能相互印证的独立来源');
+    if (metrics.timeliness < 60) recommendations.push('补充近期发布的资料');
+    if (metrics.completeness < 70) recommendations.push('优先选用带有发布日期与摘要的来源');
+
+    return {
+      overallScore,
+      metrics,
+      issues,
+      recommendations,
+      qualityLevel: this.levelFromScore(overallScore, issues),
+    };
+  }
+
+  // 完整性：来源的标题/摘要/日期与事实的来源/证据/日期是否齐全
+  private completeness(sources: Source[], facts: Fact[], issues: DataQualityReport['issues']): number {
+    const fields = [
+      ...sources.flatMap(s => [!!s.title, !!s.snippet, isValidDate(s.published)]),
+      ...facts.flatMap(f => [!!f.source, !!f.evidence, isValidDate(f.published)]),
+    ];
+    const missingEvidence = facts.filter(f => !f.evidence).length;
+    const undated = sources.filter(s => !isValidDate(s.published)).length;
+    if (missingEvidence > facts.length / 2) issues.major.push(`${missingEvidence} 个事实缺少证据原文`);
+    else if (missingEvidence > 0) issues.minor.push(`${missingEvidence} 个事实缺少证据原文`);
+    if (undated > 0) issues.minor.push(`${undated} 个来源没有发布日期`);
+    return pct(fields.filter(Boolean).length, fields.length);
+  }
+
+  // 准确性：事实的陈述/证据能否在其来源摘要中找到
+  private accuracy(facts: Fact[], sourceOf: (f: Fact) => Source | undefined, issues: DataQualityReport['issues']): number {
+    if (facts.length === 0) return 0;
+    const ungrounded = facts.filter(f => {
+      const src = sourceOf(f);
+      if (!src) return true;
+      const text = `${src.title || ''} ${src.snippet || ''}`;
+      return Math.max(overlap(f.evidence || '', text), overlap(f.statement, text)) < 0.3;
+    });
+    if (ungrounded.length > 0) {
+      issues.major.push(`${ungrounded.length} 个事实无法在其来源内容中找到依据`);
+    }
+    return pct(facts.length - ungrounded.length, facts.length);
+  }
+
+  // 一致性：事实与来源的日期是否一致、相近事实的数字是否冲突
+  private consistency(facts: Fact[], sourceOf: (f: Fact) => Source | undefined, issues: DataQualityReport['issues']): number {
+    if (facts.length === 0) return 0;
+    let checks = 0;
+    let conflicts = 0;
+
+    for (const f of facts) {
+      const src = sourceOf(f);
+      if (src && isValidDate(f.published) && isValidDate(src.published)) {
+        checks++;
+        const days = Math.abs(new Date(f.published!).getTime() - new Date(src.published!).getTime()) / 86400000;
+        if (days > 1) conflicts++;
+      }
+    }
+    if (conflicts > 0) issues.minor.push(`${conflicts} 个事实的日期与来源发布日期不符`);
+
+    let numberConflicts = 0;
+    for (let i = 0; i < facts.length; i++) {
+      for (let j = i + 1; j < facts.length; j++) {
+        if (overlap(facts[i].statement, facts[j].statement) < 0.6) continue;
+        checks++;
+        const a = extractNumbers(facts[i].statement).map(n => n.value).sort().join(',');
+        const b = extractNumbers(facts[j].statement).map(n => n.value).sort().join(',');
+        if (a && b && a !== b) numberConflicts++;
+      }
+    }
+    if (numberConflicts > 0) issues.major.push(`${numberConflicts} 组相近事实的数字互相矛盾`);
+
+    return checks === 0 ? 100 : pct(checks - conflicts - numberConflicts, checks);
+  }
+
+  // 时效性：依来源发布时间递减；无日期视为中等
+  private timeliness(sources: Source[], issues: DataQualityReport['issues']): number {
+    if (sources.length === 0) return 0;
+    const now = Date.now();
+    let stale = 0;
+    const total = sources.reduce((sum, s) => {
+      if (!isValidDate(s.published)) return sum + 50;
+      const days = (now - new Date(s.published!).getTime()) / 86400000;
+      if (days > 365 * 3) stale++;
+      return sum + (days <= 30 ? 100 : days <= 365 ? 80 : days <= 365 * 3 ? 60 : 30);
+    }, 0);
+    if (stale > 0) issues.minor.push(`${stale} 个来源发布超过三年`);
+    return Math.round(total / sources.length);
+  }
+
+  // 可靠性：事实能否被两个以上独立网域印证
+  private reliability(facts: Fact[], sources: Source[], issues: DataQualityReport['issues']): number {
+    if (facts.length === 0) return 0;
+    const corroborated = facts.filter(f => {
+      const hosts = new Set(
+        sources
+          .filter(s => overlap(f.statement, `${s.title || ''} ${s.snippet || ''}`) >= 0.3)
+          .map(s => normalizeUrl(s.url).split('/')[0])
+      );
+      return hosts.size >= 2;
+    }).length;
+    if (corroborated === 0 && facts.length > 0) issues.major.push('没有任何事实被多个来源印证');
+    return pct(corroborated, facts.length);
+  }
+
+  // 有效性：URL 与日期格式合法，事实引用的来源存在于检索结果中
+  private validity(
+    sources: Source[],
+    facts: Fact[],
+    sourceOf: (f: Fact) => Source | undefined,
+    issues: DataQualityReport['issues']
+  ): number {
+    const invalidUrls = sources.filter(s => { try { new URL(s.url); return false; } catch { return true; } }).length;
+    const badDates = [...sources, ...facts].filter(x => x.published && !isValidDate(x.published)).length;
+    const orphanFacts = facts.filter(f => !sourceOf(f)).length;
+
+    if (invalidUrls > 0) issues.major.push(`${invalidUrls} 个来源的 URL 无效`);
+    if (badDates > 0) issues.minor.push(`${badDates} 个日期无法解析`);
+    if (orphanFacts > 0) {
+      const msg = `${orphanFacts} 个事实标注的来源不在检索结果中`;
+      if (orphanFacts > facts.length / 2) issues.critical.push(msg);
+      else issues.major.push(msg);
+    }
+
+    const checks = sources.length * 2 + facts.length;
+    return checks === 0 ? 0 : pct(checks - invalidUrls - badDates - orphanFacts, checks);
+  }
+
+  // 唯一性：重复的来源、摘要与事实
+  private uniqueness(
+    sources: Source[],
+    facts: Fact[],
+    byUrl: Map<string, Source>,
+    issues: DataQualityReport['issues']
+  ): number {
+    const total = sources.length + facts.length;
+    if (total === 0) return 0;
+
+    const dupUrls = sources.length - byUrl.size;
+    const snippets = [...byUrl.values()].map(s => s.snippet || '').filter(s => s.length > 40);
+    let dupSnippets = 0;
+    for (let i = 0; i < snippets.length; i++) {
+      if (snippets.slice(0, i).some(prev => overlap(snippets[i], prev) >= 0.9)) dupSnippets++;
+    }
+    const statements = facts.map(f => f.statement.trim().toLowerCase());
+    const dupFacts = statements.length - new Set(statements).size;
+
+    if (dupUrls > 0) issues.major.push(`${dupUrls} 个来源 URL 重复`);
+    if (dupSnippets > 0) issues.minor.push(`${dupSnippets} 个来源内容高度雷同（可能为转载）`);
+    if (dupFacts > 0) issues.minor.push(`${dupFacts} 个事实重复`);
+
+    return pct(total - dupUrls - dupSnippets - dupFacts, total);
+  }
+
+  // 可访问性：可获取的链接且提供摘要内容
+  private accessibility(sources: Source[], issues: DataQualityReport['issues']): number {
+    if (sources.length === 0) return 0;
+    const insecure = sources.filter(s => s.url.startsWith('http://')).length;
+    const accessible = sources.filter(s => isFetchableUrl(s.url) && !!s.snippet).length;
+    if (insecure > 0) issues.minor.push(`${insecure} 个来源未使用 HTTPS`);
+    return pct(accessible, sources.length);
+  }
+
+  private levelFromScore(score: number, issues: DataQualityReport['issues']): DataQualityReport['qualityLevel'] {
+    if (issues.critical.length > 0 || score < 40) return 'critical';
+    if (score >= 85) return 'excellent';
+    if (score >= 70) return 'good';
+    if (score >= 55) return 'fair';
+    return 'poor';
+  }
+}
@@ -0,0 +1,330 @@
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { parse as parseYAML } from 'yaml';
+import {
+  EvalCase, EvalCaseResult, EvalReport, EvalSuite, EvalSummary, FactCheckReport, Settings, Source, TokenUsage,
+  VerdictCounts
+} from '../types.js';
+import { tokenize } from './utils.js';
+import { ResearchPipeline } from './pipeline.js';
+import { responseText } from './grounding.js';
+
+const PRESETS: Settings['speedMode'][] = ['fast', 'balanced', 'thorough'];
+const VERDICTS = ['SUPPORTED', 'WEAK', 'NO_EVIDENCE', 'CONTRADICTED'] as const;
+
+// 预期事实没有原文出现时，事实中至少这个比例的词出现在回答里才算涵盖
+const FACT_TOKEN_COVERAGE = 0.8;
+
+function stringList(value: unknown, field: string, where: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !v.trim())) {
+    throw new Error(`${where}: "${field}" must be an array of non-empty strings`);
+  }
+  return value;
+}
+
+function toCase(raw: any, index: number, where: string): EvalCase {
+  const at = `${where} case ${index + 1}`;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${at}: expected an object`);
+  if (typeof raw.question !== 'string' || !raw.question.trim()) throw new Error(`${at}: "question" is required`);
+  if (raw.id !== undefined && typeof raw.id !== 'string' && typeof raw.id !== 'number') throw new Error(`${at}: "id" must be a string`);
+  if (raw.settings !== undefined && (typeof raw.settings !== 'object' || Array.isArray(raw.settings))) {
+    throw new Error(`${at}: "settings" must be an object`);
+  }
+  const expectedFacts = raw.expectedFacts === undefined ? [] : raw.expectedFacts;
+  if (!Array.isArray(expectedFacts)) throw new Error(`${at}: "expectedFacts" must be an array`);
+  return {
+    id: raw.id !== undefined ? String(raw.id) : `q${index + 1}`,
+    question: raw.question.trim(),
+    expectedFacts: expectedFacts.map((f: unknown) => (Array.isArray(f) ? stringList(f, 'expectedFacts', at) : stringList([f], 'expectedFacts', at)[0])),
+    requiredCitations: stringList(raw.requiredCitations, 'requiredCitations', at),
+    forbiddenClaims: stringList(raw.forbiddenClaims, 'forbiddenClaims', at),
+    ...(raw.settings ? { settings: raw.settings } : {}),
+  };
+}
+
+// 解析题组：YAML 为 { name, preset, settings, cases } 或直接是题目数组；JSONL 每行一题
+export function parseEvalSuite(text: string, format: 'yaml' | 'jsonl', name = 'eval'): EvalSuite {
+  let doc: any;
+  if (format === 'jsonl') {
+    doc = text.split(/\r?\n/).map((line, i) => {
+      if (!line.trim()) return null;
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        throw new Error(`${name} line ${i + 1}: ${error instanceof Error ? error.message : error}`);
+      }
+    }).filter(Boolean);
+  } else {
+    doc = parseYAML(text);
+  }
+  const body = Array.isArray(doc) ? { cases: doc } : doc;
+  if (!body || typeof body !== 'object' || !Array.isArray(body.cases ?? body.questions)) {
+    throw new Error(`${name}: expected a list of cases`);
+  }
+  const preset = body.preset ?? 'balanced';
+  if (!PRESETS.includes(preset)) throw new Error(`${name}: "preset" must be one of ${PRESETS.join(', ')}`);
+  const cases = (body.cases ?? body.questions).map((c: unknown, i: number) => toCase(c, i, name));
+  const ids = new Set<string>();
+  for (const c of cases) {
+    if (ids.has(c.id)) throw new Error(`${name}: duplicate case id "${c.id}"`);
+    ids.add(c.id);
+  }
+  return { name: typeof body.name === 'string' ? body.name : name, preset, ...(body.settings ? { settings: body.settings } : {}), cases };
+}
+
+export async function loadEvalSuite(file: string): Promise<EvalSuite> {
+  const ext = path.extname(file).toLowerCase();
+  const format = ext === '.jsonl' || ext === '.ndjson' ? 'jsonl' : 'yaml';  // YAML 同时兼容 JSON
+  return parseEvalSuite(await fsp.readFile(file, 'utf8'), format, path.basename(file, ext));
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/#.*$/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+// 原文出现，或事实的词大部分出现在回答中
+function mentions(answer: string, answerTokens: Set<string>, phrase: string): boolean {
+  if (answer.includes(normalize(phrase))) return true;
+  const tokens = tokenize(phrase);
+  if (tokens.length === 0) return false;
+  return tokens.filter(t => answerTokens.has(t)).length / tokens.length >= FACT_TOKEN_COVERAGE;
+}
+
+// 回答中的行内引用：URL 与 [n] 编号（对应 sources 事件的顺序）；没有行内引用时以引用清单为准
+function collectCitations(answer: string, sources: Source[], listed: string[]) {
+  const known = new Map(sources.map(s => [normalizeUrl(s.url), s.url]));
+  const cited = new Set<string>();
+  const invalid: string[] = [];
+  let inline = 0;
+
+  for (const match of answer.match(/https?:\/\/[^\s)\]>"'，。、）]+/g) ?? []) {
+    const url = match.replace(/[.,;:!?]+$/, '');
+    inline++;
+    const source = known.get(normalizeUrl(url));
+    if (source) cited.add(source);
+    else invalid.push(url);
+  }
+  for (const [, group] of answer.matchAll(/\[(\d+(?:\s*[,，]\s*\d+)*)\]/g)) {
+    for (const n of group.split(/[,，]/).map(v => Number(v.trim()))) {
+      inline++;
+      const source = sources[n - 1];
+      if (source) cited.add(source.url);
+      else invalid.push(`[${n}]`);
+    }
+  }
+  if (inline === 0) listed.forEach(url => cited.add(url));
+  return { cited: [...cited], invalid, validity: inline > 0 ? (inline - invalid.length) / inline : null };
+}
+
+function emptyVerdicts(): VerdictCounts {
+  return { SUPPORTED: 0, WEAK: 0, NO_EVIDENCE: 0, CONTRADICTED: 0 };
+}
+
+// 按流程事件给一道题评分
+export function scoreEvalCase(evalCase: EvalCase, events: Array<{ event: string; data: any }>, latencyMs: number): EvalCaseResult {
+  const last = (name: string) => [...events].reverse().find(e => e.event === name)?.data;
+  const answerText = responseText(last('response'));
+  const sources: Source[] = Array.isArray(last('sources')) ? last('sources') : [];
+  const listed: string[] = (last('citations')?.citations ?? []).map((c: { url?: string }) => c.url).filter(Boolean);
+  const factCheck: FactCheckReport | undefined = last('factcheck');
+  const tokens: TokenUsage | undefined = last('tokens');
+
+  const errors = events.filter(e => e.event === 'error').map(e => e.data?.error ?? e.data?.message).filter(Boolean);
+  if (last('status')?.stage === 'cancelled') errors.push('cancelled');
+  if (!answerText) errors.push('no response');
+
+  const answer = normalize(answerText);
+  const answerTokens = new Set(tokenize(answerText));
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const fact of evalCase.expectedFacts ?? []) {
+    const alternatives = Array.isArray(fact) ? fact : [fact];
+    (alternatives.some(alt => mentions(answer, answerTokens, alt)) ? matched : missing).push(alternatives[0]);
+  }
+  const expected = matched.length + missing.length;
+
+  const citations = collectCitations(answerText, sources, listed);
+  const required = evalCase.requiredCitations ?? [];
+  const requiredMissing = required.filter(r => !citations.cited.some(url => url.toLowerCase().includes(r.toLowerCase())));
+  const forbidden = (evalCase.forbiddenClaims ?? []).filter(claim => answer.includes(normalize(claim)));
+
+  const verdicts = emptyVerdicts();
+  for (const claim of factCheck?.claims ?? []) {
+    if (claim.verdict in verdicts) verdicts[claim.verdict]++;
+  }
+
+  return {
+    id: evalCase.id,
+    question: evalCase.question,
+    passed: errors.length === 0 && missing.length === 0 && requiredMissing.length === 0 && forbidden.length === 0,
+    answer: answerText,
+    coverage: { matched, missing, score: expected > 0 ? matched.length / expected : null },
+    citations: {
+      ...citations,
+      requiredMissing,
+      requiredScore: required.length > 0 ? (required.length - requiredMissing.length) / required.length : null,
+    },
+    forbidden,
+    verdicts,
+    latencyMs,
+    tokens: tokens ? { prompt: tokens.prompt, completion: tokens.completion, total: tokens.total } : null,
+    ...(errors.length > 0 ? { error: [...new Set(errors)].join('; ') } : {}),
+  };
+}
+
+function average(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function summarizeEval(results: EvalCaseResult[]): EvalSummary {
+  const latencies = results.map(r => r.latencyMs).sort((a, b) => a - b);
+  const totalTokens = results.reduce((sum, r) => sum + (r.tokens?.total ?? 0), 0);
+  const verdicts = emptyVerdicts();
+  for (const r of results) for (const v of VERDICTS) verdicts[v] += r.verdicts[v];
+  return {
+    cases: results.length,
+    passed: results.filter(r => r.passed).length,
+    errors: results.filter(r => r.error).length,
+    coverage: average(results.map(r => r.coverage.score)),
+    citationValidity: average(results.map(r => r.citations.validity)),
+    requiredCitations: average(results.map(r => r.citations.requiredScore)),
+    forbiddenViolations: results.reduce((sum, r) => sum + r.forbidden.length, 0),
+    verdicts,
+    latencyMs: {
+      mean: Math.round(average(latencies) ?? 0),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+    tokens: { total: totalTokens, mean: results.length > 0 ? Math.round(totalTokens / results.length) : 0 },
+  };
+}
+
+export interface EvalRunOptions {
+  pipeline?: ResearchPipeline;
+  preset?: Settings['speedMode'];  // 覆盖题组的 preset
+  onCase?: (result: EvalCaseResult, index: number, total: number) => void;
+}
+
+// 依序跑完题组（逐题计时，避免互相影响延迟）
+export async function runEvalSuite(suite: EvalSuite, options: EvalRunOptions = {}): Promise<EvalReport> {
+  const pipeline = options.pipeline ?? new ResearchPipeline();
+  const preset = options.preset ?? suite.preset;
+  const results: EvalCaseResult[] = [];
+  for (const [i, evalCase] of suite.cases.entries()) {
+    const settings: Settings = {
+      lang: 'auto',
+      useWeb: true,
+      ...suite.settings,
+      ...evalCase.settings,
+      speedMode: preset,
+    };
+    const events: Array<{ event: string; data: any }> = [];
+    console.log(`[Eval] (${i + 1}/${suite.cases.length}) ${evalCase.id}: ${evalCase.question}`);
+    const start = Date.now();
+    await pipeline.runPipeline(evalCase.question, settings, (event, data) => { events.push({ event, data }); });
+    const result = scoreEvalCase(evalCase, events, Date.now() - start);
+    results.push(result);
+    options.onCase?.(result, i, suite.cases.length);
+  }
+  return { suite: suite.name, preset, createdAt: new Date().toISOString(), summary: summarizeEval(results), results };
+}
+
+const pct = (v: number | null) => (v === null ? '–' : `${(v * 100).toFixed(1)}%`);
+const signed = (v: number, digits = 0) => `${v > 0 ? '+' : ''}${v.toFixed(digits)}`;
+
+function deltaPct(current: number | null, baseline: number | null): string {
+  return current === null || baseline === null ? '–' : `${signed((current - baseline) * 100, 1)} pp`;
+}
+
+function deltaNumber(current: number, baseline: number): string {
+  if (baseline === 0) return current === 0 ? '0' : signed(current);
+  return `${signed(current - baseline)} (${signed(((current - baseline) / baseline) * 100, 1)}%)`;
+}
+
+function verdictLine(v: VerdictCounts): string {
+  return VERDICTS.map(k => v[k]).join(' / ');
+}
+
+// Markdown 报告；提供 baseline 时附上对比与每题的回归 / 修复
+export function formatEvalMarkdown(report: EvalReport, baseline?: EvalReport): string {
+  const s = report.summary;
+  const b = baseline?.summary;
+  const lines = [
+    `# Eval: ${report.suite} (${report.preset})`,
+    '',
+    `${report.createdAt} · passed ${s.passed}/${s.cases}` + (baseline ? ` · baseline ${baseline.createdAt}` : ''),
+    '',
+  ];
+
+  const rows: Array<[string, string, string, string]> = [
+    ['Passed', `${s.passed}/${s.cases}`, b ? `${b.passed}/${b.cases}` : '', b ? signed(s.passed - b.passed) : ''],
+    ['Errors', String(s.errors), b ? String(b.errors) : '', b ? signed(s.errors - b.errors) : ''],
+    ['Fact coverage', pct(s.coverage), b ? pct(b.coverage) : '', b ? deltaPct(s.coverage, b.coverage) : ''],
+    ['Citation validity', pct(s.citationValidity), b ? pct(b.citationValidity) : '', b ? deltaPct(s.citationValidity, b.citationValidity) : ''],
+    ['Required citations', pct(s.requiredCitations), b ? pct(b.requiredCitations) : '', b ? deltaPct(s.requiredCitations, b.requiredCitations) : ''],
+    ['Forbidden claims', String(s.forbiddenViolations), b ? String(b.forbiddenViolations) : '', b ? signed(s.forbiddenViolations - b.forbiddenViolations) : ''],
+    ['Verdicts (S / W / N / C)', verdictLine(s.verdicts), b ? verdictLine(b.verdicts) : '', ''],
+    ['Latency p50 (ms)', String(s.latencyMs.p50), b ? String(b.latencyMs.p50) : '', b ? deltaNumber(s.latencyMs.p50, b.latencyMs.p50) : ''],
+    ['Latency p95 (ms)', String(s.latencyMs.p95), b ? String(b.latencyMs.p95) : '', b ? deltaNumber(s.latencyMs.p95, b.latencyMs.p95) : ''],
+    ['Tokens (mean)', String(s.tokens.mean), b ? String(b.tokens.mean) : '', b ? deltaNumber(s.tokens.mean, b.tokens.mean) : ''],
+    ['Tokens (total)', String(s.tokens.total), b ? String(b.tokens.total) : '', b ? deltaNumber(s.tokens.total, b.tokens.total) : ''],
+  ];
+  if (b) {
+    lines.push('| Metric | Baseline | Current | Δ |', '|---|---|---|---|');
+    for (const [name, current, base, delta] of rows) lines.push(`| ${name} | ${base} | ${current} | ${delta} |`);
+  } else {
+    lines.push('| Metric | Value |', '|---|---|');
+    for (const [name, current] of rows) lines.push(`| ${name} | ${current} |`);
+  }
+
+  const before = new Map(baseline?.results.map(r => [r.id, r]) ?? []);
+  lines.push('', '## Questions', '', `| ID | Pass | Coverage | Citations | Forbidden | Latency (ms) | Tokens |${b ? ' vs baseline |' : ''}`);
+  lines.push(`|---|---|---|---|---|---|---|${b ? '---|' : ''}`);
+  for (const r of report.results) {
+    const prev = before.get(r.id);
+    let change = '';
+    if (b) {
+      if (!prev) change = 'new';
+      else if (prev.passed && !r.passed) change = '**regressed**';
+      else if (!prev.passed && r.passed) change = 'fixed';
+      else change = deltaPct(r.coverage.score, prev.coverage.score);
+    }
+    const cells = [
+      r.id, r.passed ? '✅' : r.error ? '💥' : '❌', pct(r.coverage.score), pct(r.citations.validity),
+      String(r.forbidden.length), String(r.latencyMs), String(r.tokens?.total ?? '–'),
+    ];
+    lines.push(`| ${cells.join(' | ')} |${b ? ` ${change} |` : ''}`);
+  }
+
+  const failures = report.results.filter(r => !r.passed);
+  if (failures.length > 0) {
+    lines.push('', '## Failures', '');
+    for (const r of failures) {
+      lines.push(`### ${r.id}`);
+      if (r.error) lines.push(`- error: ${r.error}`);
+      if (r.coverage.missing.length) lines.push(`- missing facts: ${r.coverage.missing.map(f => `"${f}"`).join(', ')}`);
+      if (r.citations.requiredMissing.length) lines.push(`- missing citations: ${r.citations.requiredMissing.join(', ')}`);
+      if (r.citations.invalid.length) lines.push(`- invalid citations: ${r.citations.invalid.join(', ')}`);
+      if (r.forbidden.length) lines.push(`- forbidden claims: ${r.forbidden.map(f => `"${f}"`).join(', ')}`);
+      lines.push('');
+    }
+  }
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// 基线中通过、本次未通过的题目
+export function evalRegressions(report: EvalReport, baseline: EvalReport): string[] {
+  const before = new Map(baseline.results.map(r => [r.id, r]));
+  return report.results.filter(r => before.get(r.id)?.passed && !r.passed).map(r => r.id);
+}
@@ -0,0 +1,114 @@
+import { CitationMap, CitationMapEntry, CitedSpan, Fact, GroundedResponse, Source } from '../types.js';
+import { tokenize } from './utils.js';
+
+// 行内引用：[1]、[1, 3]，以及 Researcher 段落 ID 形式的 [S2-1]
+const MARKER_RE = /\[(\d+(?:\s*[,，]\s*\d+)*)\]/g;
+const PASSAGE_MARKER_RE = /\[S(\d+)-\d+\]/g;
+// 句末标点（英文需后接空白或行尾，避免切开 2.5 这类数字），连同紧跟的引用标记
+const SENTENCE_END_RE = /(?:[.!?](?=\s|$)|[。！？])(?:\s*\[\d+(?:\s*[,，]\s*\d+)*\])*/g;
+// 少于此词数的句子（标题、过渡语）不要求出处
+const MIN_CLAIM_TOKENS = 4;
+
+// 只计入指向现有来源的标记（正文里的 [2023] 之类不算）
+function markersIn(text: string, sourceCount: number): number[] {
+  const numbers: number[] = [];
+  for (const [, group] of text.matchAll(MARKER_RE)) {
+    numbers.push(...group.split(/[,，]/).map(v => Number(v.trim())).filter(n => n >= 1 && n <= sourceCount));
+  }
+  return [...new Set(numbers)];
+}
+
+// 处于引用位置的标记：紧跟在同一行的文字或标点之后，其后是标点、另一个标记或行尾；年份不算
+function looksLikeCitation(text: string, start: number, end: number, numbers: number[]): boolean {
+  if (numbers.every(n => n >= 1900 && n <= 2100)) return false;
+  return /\S[ \t]*$/.test(text.slice(0, start)) && /^[ \t]*(?:[.,;:!?。，；：！？)\]\[\n]|$)/.test(text.slice(end));
+}
+
+// 段落 ID 换成来源序号，去掉指向不存在来源的引用标记；不在引用位置的方括号数字保留原样
+function normalizeMarkers(text: string, sourceCount: number): { text: string; invalid: number[] } {
+  const invalid = new Set<number>();
+  const normalized = text
+    .replace(PASSAGE_MARKER_RE, (_, n) => `[${n}]`)
+    .replace(MARKER_RE, (marker: string, group: string, offset: number, whole: string) => {
+      const numbers = group.split(/[,，]/).map(v => Number(v.trim()));
+      const valid = numbers.filter(n => n >= 1 && n <= sourceCount);
+      if (valid.length === numbers.length) return `[${[...new Set(valid)].join(', ')}]`;
+      if (valid.length === 0 && !looksLikeCitation(whole, offset, offset + marker.length, numbers)) return marker;
+      numbers.filter(n => !valid.includes(n)).forEach(n => invalid.add(n));
+      return valid.length > 0 ? `[${[...new Set(valid)].join(', ')}]` : '\u0000';
+    })
+    // 连同移除的标记前的空格一起去掉
+    .replace(/[ \t]*\u0000/g, '');
+  return { text: normalized, invalid: [...invalid].sort((a, b) => a - b) };
+}
+
+// 按行、按句切分，返回需要出处的句子位置（跳过标题、代码块与过短的句子）
+function claimSpans(text: string): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  let offset = 0;
+  let inCode = false;
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (/^\s*```/.test(line)) inCode = !inCode;
+    if (inCode || /^\s*(```|#|\|)/.test(line) || !line.trim()) continue;
+
+    let start = 0;
+    const ends = [...line.matchAll(SENTENCE_END_RE)].map(m => m.index! + m[0].length);
+    if (ends[ends.length - 1] !== line.length) ends.push(line.length);
+    for (const end of ends) {
+      const sentence = line.slice(start, end);
+      const lead = sentence.length - sentence.trimStart().length;
+      const plain = sentence.replace(MARKER_RE, '').replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '').trim();
+      if (plain && !plain.endsWith(':') && !plain.endsWith('：') && tokenize(plain).length >= MIN_CLAIM_TOKENS) {
+        spans.push({ start: lineStart + start + lead, end: lineStart + sentence.trimEnd().length + start });
+      }
+      start = end;
+    }
+  }
+  return spans;
+}
+
+// 校验回答中的行内引用并建立引用对照：无效标记移除，未标注引用的句子计入 uncited
+export function groundCitations(text: string, sources: Source[], facts: Fact[] = []): GroundedResponse {
+  const { text: grounded, invalid } = normalizeMarkers(text, sources.length);
+
+  const spans: CitedSpan[] = claimSpans(grounded).map(({ start, end }) => ({
+    start,
+    end,
+    citations: markersIn(grounded.slice(start, end), sources.length),
+  }));
+  const used = markersIn(grounded, sources.length).sort((a, b) => a - b);
+  const entries: CitationMapEntry[] = used.map(n => {
+    const source = sources[n - 1];
+    return {
+      n,
+      url: source.url,
+      title: source.title,
+      published: source.published,
+      facts: facts
+        .filter(f => f.source === source.url)
+        .map(f => ({ statement: f.statement, evidence: f.evidence, passageId: f.passageId })),
+    };
+  });
+
+  const uncited = spans.filter(s => s.citations.length === 0).length;
+  const citations: CitationMap = {
+    entries,
+    spans,
+    invalid,
+    uncited,
+    coverage: spans.length > 0 ? Math.round(((spans.length - uncited) / spans.length) * 100) / 100 : null,
+  };
+  if (invalid.length > 0 || uncited > 0) {
+    console.log(`[Grounding] 移除无效引用 ${invalid.length} 个，未标注引用的句子 ${uncited} / ${spans.length}`);
+  }
+  return { text: grounded, citations };
+}
+
+// response 事件的回答文字（兼容旧版直接送字符串的记录）
+export function responseText(data: unknown): string {
+  if (typeof data === 'string') return data;
+  const text = (data as GroundedResponse | undefined)?.text;
+  return typeof text === 'string' ? text : '';
+}
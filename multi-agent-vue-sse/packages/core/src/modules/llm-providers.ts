@@ -0,0 +1,228 @@
+import fs from 'node:fs';
+import OpenAI from 'openai';
+import {
+  LLMChatRequest, LLMChatResult, LLMProvider, LLMRole, LLMUsage, LLMUsageReport
+} from '../types.js';
+import { activeCassette } from './cassette.js';
+import { CFG } from './config.js';
+import { UsageMeter, tokenize } from './utils.js';
+
+function toUsage(u?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null): LLMUsage | undefined {
+  if (!u) return undefined;
+  const promptTokens = u.prompt_tokens ?? 0;
+  const completionTokens = u.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: u.total_tokens ?? promptTokens + completionTokens };
+}
+
+// OpenAI 官方 API
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  protected meter: UsageMeter;
+  private client: OpenAI | null = null;
+
+  constructor(
+    private options: { apiKey?: string; baseURL?: string; streamUsage?: boolean } = {},
+    name?: string
+  ) {
+    if (name) this.name = name;
+    this.meter = new UsageMeter(this.name);
+  }
+
+  // 延遲建立：缺少金鑰時到實際呼叫才報錯
+  private get openai(): OpenAI {
+    this.client ??= new OpenAI({
+      apiKey: this.options.apiKey ?? process.env.OPENAI_API_KEY,
+      ...(this.options.baseURL ? { baseURL: this.options.baseURL } : {}),
+    });
+    return this.client;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    const response = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    }, { signal: request.signal });
+    const text = response.choices[0]?.message?.content || '';
+    return { text, usage: this.meter.record(request.messages, text, toUsage(response.usage)) };
+  }
+
+  async stream(request: LLMChatRequest, onDelta: (delta: string) => void | Promise<void>): Promise<LLMChatResult> {
+    const stream = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      // 最後一個 chunk 回報用量；部分相容服務不支援此參數
+      ...(this.options.streamUsage !== false ? { stream_options: { include_usage: true } } : {}),
+    }, { signal: request.signal });
+
+    let text = '';
+    let usage: LLMUsage | undefined;
+    try {
+      for await (const part of stream) {
+        usage = toUsage(part.usage) ?? usage;
+        const delta = part.choices[0]?.delta?.content;
+        if (!delta) continue;
+        text += delta;
+        await onDelta(delta);
+      }
+    } finally {
+      this.meter.record(request.messages, text, usage);
+    }
+    return { text, usage };
+  }
+
+  async embed(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const res = await this.openai.embeddings.create({ model, input: texts }, { signal });
+    this.meter.recordEmbeddings(texts.length);
+    return res.data.map(d => d.embedding);
+  }
+
+  usage(): LLMUsageReport {
+    return this.meter.snapshot();
+  }
+}
+
+// OpenAI 相容的本地 / 自架服務（llama.cpp、vLLM、Ollama…）：只需 base URL，模型名稱沿用 *_MODEL 設定
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  constructor(baseURL: string = CFG.LLM_BASE_URL, apiKey: string = CFG.LLM_API_KEY) {
+    super({ baseURL, apiKey: apiKey || 'not-needed', streamUsage: false }, 'openai-compatible');
+  }
+}
+
+// 腳本規則：match 比對最後一則 user 訊息與 system 提示詞（字串為不分大小寫的子字串），第一條符合者回覆
+export interface ScriptedRule {
+  match?: string | RegExp;
+  model?: string;
+  reply: string | ((request: LLMChatRequest) => string);
+  once?: boolean;  // 只使用一次（依序腳本）
+}
+
+// 確定性模擬：不連網，依腳本回覆；embed 以詞彙雜湊產生固定向量。calls 保存所有請求，方便測試斷言
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly calls: LLMChatRequest[] = [];
+  private rules: ScriptedRule[];
+  private meter = new UsageMeter(this.name);
+
+  constructor(rules: ScriptedRule[] = [], private dimensions = 64) {
+    this.rules = [...rules];
+  }
+
+  // 從 JSON 檔載入規則：[{ "match": "...", "pattern": "正則", "model": "...", "reply": "...", "once": true }]
+  static fromFile(file: string): ScriptedProvider {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf8')) as Array<ScriptedRule & { pattern?: string }>;
+    return new ScriptedProvider(raw.map(r => ({ ...r, match: r.pattern ? new RegExp(r.pattern, 'i') : r.match })));
+  }
+
+  private reply(request: LLMChatRequest): string {
+    this.calls.push(request);
+    const haystack = request.messages.map(m => m.content).join('\n');
+    const idx = this.rules.findIndex(rule => {
+      if (rule.model && rule.model !== request.model) return false;
+      if (rule.match === undefined) return true;
+      return typeof rule.match === 'string'
+        ? haystack.toLowerCase().includes(rule.match.toLowerCase())
+        : rule.match.test(haystack);
+    });
+    if (idx < 0) {
+      const question = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+      return `[mock:${request.model}] ${question.replace(/\s+/g, ' ').slice(0, 80)}`;
+    }
+    const rule = this.rules[idx];
+    if (rule.once) this.rules.splice(idx, 1);
+    return typeof rule.reply === 'function' ? rule.reply(request) : rule.reply;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    if (request.signal?.aborted) throw request.signal.reason;
+    const text = this.reply(request);
+    return { text, usage: this.meter.record(request.messages, text) };
+  }
+
+  async stream(request: LLMChatRequest, onDelta: (delta: string) => void | Promise<void>): Promise<LLMChatResult> {
+    const full = this.reply(request);
+    let text = '';
+    try {
+      for (const piece of full.match(/\S+\s*|\s+/g) ?? []) {
+        if (request.signal?.aborted) throw request.signal.reason;
+        text += piece;
+        await onDelta(piece);
+      }
+    } finally {
+      this.meter.record(request.messages, text);
+    }
+    return { text };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.meter.recordEmbeddings(texts.length);
+    return texts.map(text => {
+      const vec = new Array<number>(this.dimensions).fill(0);
+      for (const token of tokenize(text)) {
+        let h = 0;
+        for (let i = 0; i < token.length; i++) h = (h * 31 + token.charCodeAt(i)) >>> 0;
+        vec[h % this.dimensions] += 1;
+      }
+      const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vec.map(v => v / norm);
+    });
+  }
+
+  usage(): LLMUsageReport {
+    return this.meter.snapshot();
+  }
+}
+
+// 提供者註冊表
+const PROVIDERS = new Map<string, () => LLMProvider>([
+  ['openai', () => new OpenAIProvider()],
+  ['openai-compatible', () => new OpenAICompatibleProvider()],
+  ['mock', () => CFG.LLM_MOCK_SCRIPT ? ScriptedProvider.fromFile(CFG.LLM_MOCK_SCRIPT) : new ScriptedProvider()],
+]);
+
+// 同名提供者共用一個實例（累計用量）
+const instances = new Map<string, LLMProvider>();
+
+export function registerLLMProvider(name: string, factory: () => LLMProvider): void {
+  PROVIDERS.set(name, factory);
+  instances.delete(name);
+}
+
+export function listLLMProviders(): string[] {
+  return [...PROVIDERS.keys()];
+}
+
+export function createLLMProvider(name: string = CFG.LLM_PROVIDER): LLMProvider {
+  let provider = instances.get(name);
+  if (provider) return provider;
+  const factory = PROVIDERS.get(name);
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${name}", available: ${listLLMProviders().join(', ')}`);
+  }
+  provider = factory();
+  // CASSETTE_MODE 开启时所有请求都经过录制文件
+  const cassette = activeCassette();
+  if (cassette) provider = cassette.wrapLLM(provider);
+  instances.set(name, provider);
+  return provider;
+}
+
+export function llmProviderName(role: LLMRole): string {
+  return CFG.LLM_ROLE_PROVIDERS[role] ?? CFG.LLM_PROVIDER;
+}
+
+// 依角色選擇提供者（LLM_PROVIDER_<ROLE> 優先，否則 LLM_PROVIDER）
+export function llmProviderFor(role: LLMRole): LLMProvider {
+  return createLLMProvider(llmProviderName(role));
+}
+
+// 該角色是否可用：官方 OpenAI 需要金鑰，其餘提供者視為可用；重放時一律由錄製檔回應
+export function isLLMAvailable(role: LLMRole): boolean {
+  if (CFG.CASSETTE_MODE === 'replay') return true;
+  return llmProviderName(role) !== 'openai' || Boolean(process.env.OPENAI_API_KEY);
+}
@@ -0,0 +1,219 @@
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { isLLMAvailable, llmProviderFor } from './llm-providers.js';
+import { MemoryEntry } from '../types.js';
+import { CFG } from './config.js';
+import { smartTruncate } from './utils.js';
+import { TfidfScorer } from './similarity.js';
+
+// 对外返回的记忆条目不含向量
+export type MemoryRecord = Omit<MemoryEntry, 'embedding'>;
+
+export interface MemorySearchResult extends MemoryRecord {
+  score: number;
+}
+
+// scope 仅允许字母、数字与 ._-，避免被用来拼接路径或注入
+const SCOPE_RE = /^[\w.-]{1,64}$/;
+
+export function isValidMemoryScope(scope: unknown): scope is string {
+  return typeof scope === 'string' && SCOPE_RE.test(scope);
+}
+
+function isMemoryEntry(x: any): x is MemoryEntry {
+  return !!x && typeof x.id === 'string' && typeof x.ts === 'number' && typeof x.scope === 'string' &&
+    (x.role === 'user' || x.role === 'assistant') && typeof x.text === 'string';
+}
+
+function toRecord({ embedding, ...rest }: MemoryEntry): MemoryRecord {
+  return rest;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
+
+// 近期记忆略微加分
+function recencyBoost(ts: number): number {
+  const days = (Date.now() - ts) / 86400000;
+  return days <= 3 ? 0.05 : days <= 30 ? 0.02 : 0;
+}
+
+// 给 Router / Writer 提示词用的记忆摘要
+export function formatMemoryBrief(entries: MemoryRecord[], maxLength = 120): string {
+  return entries.map(m => {
+    const tag = m.role === 'user' ? 'U' : 'A';
+    const head = m.facts?.length ? m.facts.join('; ') : m.text;
+    return `- ${tag} ${new Date(m.ts).toISOString().slice(0, 10)} ${smartTruncate(head, maxLength)}`;
+  }).join('\n');
+}
+
+// 跨会话长期记忆：JSONL 存储，按用户 / 会话 scope 隔离，向量检索（不可用时退回 TF-IDF）
+export class MemoryManager {
+  private file: string;
+  private embedModel: string;
+  private entries: MemoryEntry[] | null = null;
+  // 串行化写入，避免并发请求交错写文件
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string = CFG.MEMORY_PATH, embedModel: string = CFG.EMBED_MODEL) {
+    this.file = path.resolve(file);
+    this.embedModel = embedModel;
+  }
+
+  async load(): Promise<MemoryEntry[]> {
+    if (this.entries) return this.entries;
+    const txt = await fsp.readFile(this.file, 'utf8').catch(() => '');
+    const entries: MemoryEntry[] = [];
+    for (const line of txt.split('\n')) {
+      const s = line.trim();
+      if (!s) continue;
+      try {
+        const parsed = JSON.parse(s);
+        if (isMemoryEntry(parsed)) entries.push(parsed);
+      } catch { /* 跳过损坏的行 */ }
+    }
+    this.entries = entries;
+    return entries;
+  }
+
+  // 新增记忆；提供 embedText 时计算向量供检索
+  async add(
+    scope: string,
+    entry: Omit<MemoryEntry, 'id' | 'ts' | 'scope' | 'embedding'>,
+    embedText?: string
+  ): Promise<MemoryRecord> {
+    this.assertScope(scope);
+    const embedding = embedText ? await this.embed(embedText) : null;
+    const full: MemoryEntry = {
+      id: randomUUID(),
+      ts: Date.now(),
+      scope,
+      ...entry,
+      ...(embedding ? { embedding } : {}),
+    };
+    await this.enqueue(async () => {
+      const entries = await this.load();
+      await fsp.mkdir(path.dirname(this.file), { recursive: true });
+      await fsp.appendFile(this.file, JSON.stringify(full) + '\n', 'utf8');
+      entries.push(full);
+    });
+    return toRecord(full);
+  }
+
+  // 按时间倒序列出
+  async list(scope: string, limit = 50, offset = 0): Promise<{ total: number; entries: MemoryRecord[] }> {
+    this.assertScope(scope);
+    const scoped = (await this.load()).filter(e => e.scope === scope).sort((a, b) => b.ts - a.ts);
+    return { total: scoped.length, entries: scoped.slice(offset, offset + limit).map(toRecord) };
+  }
+
+  // 语义检索：向量余弦（缺向量时用 TF-IDF）加上时间衰减
+  async search(scope: string, query: string, k = 6): Promise<MemorySearchResult[]> {
+    this.assertScope(scope);
+    const scoped = (await this.load()).filter(e => e.scope === scope);
+    if (scoped.length === 0 || !query.trim()) return [];
+
+    const queryVec = scoped.some(e => e.embedding?.length) ? await this.embed(query) : null;
+    const searchText = (e: MemoryEntry) => [e.text, ...(e.facts ?? []), ...(e.entities ?? []), ...(e.keywords ?? [])].join('\n');
+    const needsTfidf = scoped.filter(e => !queryVec || !e.embedding?.length);
+    const tfidf = needsTfidf.length
+      ? await new TfidfScorer().score(query, needsTfidf.map(searchText))
+      : { scores: [] as number[] };
+    const tfidfScores = new Map(needsTfidf.map((e, i) => [e.id, tfidf.scores[i] ?? 0]));
+
+    return scoped
+      .map(e => {
+        const similarity = queryVec && e.embedding?.length ? cosine(queryVec, e.embedding) : tfidfScores.get(e.id) ?? 0;
+        return { ...toRecord(e), score: Math.round((similarity + recencyBoost(e.ts)) * 1000) / 1000 };
+      })
+      .filter(r => r.score > recencyBoost(r.ts))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  async delete(scope: string, id: string): Promise<boolean> {
+    this.assertScope(scope);
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      const next = entries.filter(e => !(e.scope === scope && e.id === id));
+      if (next.length === entries.length) return false;
+      await this.rewrite(next);
+      return true;
+    });
+  }
+
+  // 清空某个 scope 的全部记忆，返回删除条数
+  async clear(scope: string): Promise<number> {
+    this.assertScope(scope);
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      const next = entries.filter(e => e.scope !== scope);
+      const removed = entries.length - next.length;
+      if (removed > 0) await this.rewrite(next);
+      return removed;
+    });
+  }
+
+  // 导出某个 scope 的记忆（JSONL，含向量，可直接再导入）
+  async export(scope: string): Promise<string> {
+    this.assertScope(scope);
+    return (await this.load())
+      .filter(e => e.scope === scope)
+      .map(e => JSON.stringify(e))
+      .join('\n');
+  }
+
+  private async embed(text: string): Promise<number[] | null> {
+    if (!isLLMAvailable('embedding')) return null;
+    try {
+      const [vec] = await llmProviderFor('embedding').embed([text.slice(0, 8000)], this.embedModel);
+      return Array.isArray(vec) && vec.length > 0 ? vec : null;
+    } catch (error) {
+      console.warn('[Memory] 向量计算失败，改用关键词检索:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // 先写临时文件再替换，避免中途失败留下半个文件
+  private async rewrite(entries: MemoryEntry[]): Promise<void> {
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fsp.mkdir(path.dirname(this.file), { recursive: true });
+    await fsp.writeFile(tmp, entries.map(e => JSON.stringify(e) + '\n').join(''), 'utf8');
+    await fsp.rename(tmp, this.file);
+    this.entries = entries;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(task, task);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private assertScope(scope: string): void {
+    if (!isValidMemoryScope(scope)) {
+      throw new Error(`Invalid memory scope "${scope}"`);
+    }
+  }
+}
+
+// 同一文件共享一个实例（服务端各请求与记忆 API 共用缓存与写入队列）
+const managers = new Map<string, MemoryManager>();
+
+export function getMemoryManager(file: string = CFG.MEMORY_PATH): MemoryManager {
+  const key = path.resolve(file);
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new MemoryManager(key);
+    managers.set(key, manager);
+  }
+  return manager;
+}
@@ -0,0 +1,499 @@
+import { lookup as dnsLookup } from 'node:dns';
+import dns from 'node:dns/promises';
+import fsp from 'node:fs/promises';
+import net from 'node:net';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { extractFromHtml } from '@extractus/article-extractor';
+import { Agent } from 'undici';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { FetchedPage, PageFetchResult } from '../types.js';
+import { Cassette, activeCassette } from './cassette.js';
+import { CFG } from './config.js';
+
+export interface PageFetcherOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  maxChars: number;          // 正文截断长度
+  perHostConcurrency: number;
+  cacheTtlMs: number;
+  cacheSize: number;
+  respectRobots: boolean;
+  userAgent: string;
+  allowPrivateHosts: boolean;  // 允许抓取内网 / 本机地址（仅供本地测试）
+}
+
+const DEFAULTS = (): PageFetcherOptions => ({
+  timeoutMs: CFG.PAGE_FETCH_TIMEOUT_MS,
+  maxBytes: CFG.PAGE_FETCH_MAX_BYTES,
+  maxChars: CFG.PAGE_MAX_CHARS,
+  perHostConcurrency: CFG.PAGE_FETCH_PER_HOST,
+  cacheTtlMs: CFG.PAGE_CACHE_TTL_MS,
+  cacheSize: 200,
+  respectRobots: CFG.PAGE_FETCH_RESPECT_ROBOTS,
+  userAgent: CFG.PAGE_FETCH_USER_AGENT,
+  allowPrivateHosts: CFG.PAGE_FETCH_ALLOW_PRIVATE,
+});
+
+/* ----------------------------- 地址检查 ----------------------------- */
+
+// 单次抓取最多跟随的重定向次数
+const MAX_REDIRECTS = 5;
+
+// 不可抓取的网段：本网、私有、CGNAT、回环、链路本地（含云端元数据 169.254.169.254）、组播与保留地址，
+// 以及可借 NAT64 转到任意 IPv4 的 64:ff9b::/96；BlockList 也会以 IPv4 规则比对 ::ffff:a.b.c.d 这类映射地址
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// 抓取前先解析主机名，任一地址落在上述网段即拒绝；返回拒绝原因。
+// 只用于提早回报，真正的防线是连线时的 guardedLookup
+async function privateHostReason(url: URL): Promise<string | null> {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true, verbatim: true })).map(a => a.address);
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked ? `private address ${blocked}` : null;
+}
+
+// IP 字面地址连线时不经过 DNS 查询，每一跳另外检查
+function literalAddressReason(url: URL): string | null {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  return isPrivateAddress(host) ? `private address ${host}` : null;
+}
+
+const PRIVATE_ADDRESS_CODE = 'EPRIVATEADDR';
+
+// 连线用的 DNS 查询：检查的正是实际连线的地址，避免 DNS rebinding（检查时给公网地址、连线时换成内网）
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    const blocked = addresses.find(a => isPrivateAddress(a.address));
+    if (blocked) {
+      const denied: NodeJS.ErrnoException = new Error(`private address ${blocked.address}`);
+      denied.code = PRIVATE_ADDRESS_CODE;
+      return callback(denied, '');
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const guardedAgent = new Agent({ connect: { lookup: guardedLookup } });
+
+// fetch 因 guardedLookup 拒绝而失败时，取出拒绝原因
+function deniedReason(error: unknown): string | null {
+  const cause = (error as { cause?: NodeJS.ErrnoException } | null)?.cause;
+  return cause?.code === PRIVATE_ADDRESS_CODE ? cause.message : null;
+}
+
+/* ----------------------------- robots.txt ----------------------------- */
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+const ALLOW_ALL: RobotsRules = { allow: [], disallow: [] };
+const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ['/'] };
+// robots.txt 缓存时间（RFC 9309 建议不超过 24 小时）
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 取与本代理最匹配的一组规则：User-agent 命中产品名的组优先，否则用 *
+export function parseRobots(text: string, userAgent: string): RobotsRules {
+  const product = userAgent.split('/')[0].toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const idx = line.indexOf(':');
+    if (idx < 0) continue;
+    const field = line.slice(0, idx).trim().toLowerCase();
+    const value = line.slice(idx + 1).trim();
+    if (field === 'user-agent') {
+      // 连续的 User-agent 行属于同一组
+      if (!current || inRules) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+        inRules = false;
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      inRules = true;
+      if (value) current.rules[field].push(value);
+    }
+  }
+
+  const specific = groups.find(g => g.agents.some(a => a !== '*' && product.includes(a)));
+  const wildcard = groups.find(g => g.agents.includes('*'));
+  return (specific ?? wildcard)?.rules ?? ALLOW_ALL;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// 最长匹配优先，长度相同时 Allow 优先（RFC 9309）
+export function isPathAllowed(rules: RobotsRules, pathAndQuery: string): boolean {
+  let best = { length: -1, allow: true };
+  for (const [list, allow] of [[rules.allow, true], [rules.disallow, false]] as const) {
+    for (const pattern of list) {
+      if (!patternToRegExp(pattern).test(pathAndQuery)) continue;
+      if (pattern.length > best.length || (pattern.length === best.length && allow)) best = { length: pattern.length, allow };
+    }
+  }
+  return best.allow;
+}
+
+/* ----------------------------- 正文提取 ----------------------------- */
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return Number.isFinite(n) && n > 0 && n < 0x110000 ? String.fromCodePoint(n) : m;
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+// HTML 转纯文本：块级元素换行，去掉脚本与样式
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|template|svg)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|li|ul|ol|h[1-6]|tr|table|blockquote|pre|figcaption|dd|dt)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+  return cleanText(decodeEntities(text));
+}
+
+function cleanText(text: string): string {
+  return text
+    .split(/\n/)
+    .map(line => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+type ContentKind = FetchedPage['contentType'] | null;
+
+function kindOf(contentType: string, url: string): ContentKind {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('text/') || type === 'application/json' || type === 'application/xml') return 'text';
+  // 没有或泛用的 Content-Type 时按扩展名判断
+  if (!type || type === 'application/octet-stream') {
+    const ext = path.extname(new URL(url).pathname).toLowerCase();
+    if (ext === '.html' || ext === '.htm') return 'html';
+    if (ext === '.pdf') return 'pdf';
+    if (['.txt', '.md', '.markdown', '.json', '.csv'].includes(ext)) return 'text';
+  }
+  return null;
+}
+
+function charsetOf(contentType: string): string {
+  return contentType.match(/charset=["']?([\w-]+)/i)?.[1] ?? 'utf-8';
+}
+
+function decode(bytes: Uint8Array, contentType: string): string {
+  try {
+    return new TextDecoder(charsetOf(contentType)).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+async function extractPage(
+  bytes: Uint8Array, kind: NonNullable<ContentKind>, contentType: string, url: string, finalUrl: string, maxChars: number
+): Promise<FetchedPage> {
+  let title: string | undefined;
+  let description: string | undefined;
+  let published: string | undefined;
+  let content: string;
+
+  if (kind === 'pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(bytes));
+    const { text } = await extractText(pdf, { mergePages: false });
+    // 每页一段，页内按空行分段
+    content = cleanText(text.join('\n\n'));
+    title = path.basename(new URL(finalUrl).pathname) || undefined;
+  } else if (kind === 'html') {
+    const html = decode(bytes, contentType);
+    // readability 提取正文；提取不到时退回整页文字
+    const article = await extractFromHtml(html, finalUrl).catch(() => null);
+    content = article?.content ? htmlToText(article.content) : '';
+    if (content.length < 200) content = htmlToText(html.replace(/<(nav|header|footer|aside|form)[\s\S]*?<\/\1>/gi, ' '));
+    title = article?.title || decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim() ?? '') || undefined;
+    description = article?.description || undefined;
+    published = article?.published || undefined;
+  } else {
+    content = cleanText(decode(bytes, contentType));
+    title = content.match(/^#\s+(.+)$/m)?.[1]?.trim();
+  }
+
+  return {
+    url,
+    finalUrl,
+    ...(title ? { title } : {}),
+    ...(description ? { description } : {}),
+    ...(published ? { published } : {}),
+    contentType: kind,
+    content: content.slice(0, maxChars),
+    fetchedAt: Date.now(),
+  };
+}
+
+// 读取响应体，超过上限即中止
+async function readLimited(res: Response, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(res.headers.get('content-length') ?? '0');
+  if (declared > maxBytes) throw new Error(`content-length ${declared} exceeds ${maxBytes} bytes`);
+  if (!res.body) return new Uint8Array(await res.arrayBuffer());
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+/* ----------------------------- 抓取器 ----------------------------- */
+
+// 同一主机的并发上限
+class HostLimiter {
+  private hosts = new Map<string, { active: number; queue: Array<() => void> }>();
+
+  constructor(private limit: number) {}
+
+  async run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    let slot = this.hosts.get(host);
+    if (!slot) {
+      slot = { active: 0, queue: [] };
+      this.hosts.set(host, slot);
+    }
+    if (slot.active >= this.limit) await new Promise<void>(resolve => slot!.queue.push(resolve));
+    slot.active++;
+    try {
+      return await task();
+    } finally {
+      slot.active--;
+      const next = slot.queue.shift();
+      if (next) next();
+      else if (slot.active === 0) this.hosts.delete(host);
+    }
+  }
+}
+
+// 来源全文抓取：缓存、按主机限流、遵守 robots.txt，支持 HTML（readability 提取）、PDF 与纯文本
+export class PageFetcher {
+  private options: PageFetcherOptions;
+  private cache = new Map<string, { result: PageFetchResult; ts: number }>();
+  private robots = new Map<string, { rules: Promise<RobotsRules>; ts: number }>();
+  private limiter: HostLimiter;
+  private cassette: Cassette | null;
+
+  constructor(options: Partial<PageFetcherOptions> = {}, cassette: Cassette | null = activeCassette()) {
+    this.options = { ...DEFAULTS(), ...options };
+    this.limiter = new HostLimiter(this.options.perHostConcurrency);
+    this.cassette = cassette;
+  }
+
+  setCassette(cassette: Cassette | null): void {
+    this.cassette = cassette;
+  }
+
+  async fetch(url: string, signal?: AbortSignal): Promise<PageFetchResult> {
+    const cached = this.cache.get(url);
+    if (cached && Date.now() - cached.ts <= this.options.cacheTtlMs) return cached.result;
+
+    let result: PageFetchResult;
+    try {
+      result = this.cassette
+        ? await this.cassette.through('page', { url }, () => this.load(url, signal))
+        : await this.load(url, signal);
+    } catch (error) {
+      result = { url, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // 中止时的结果（失败或因 robots.txt 读取中断而拒绝）不缓存，下次可重试
+    if (!signal?.aborted) {
+      this.cache.set(url, { result, ts: Date.now() });
+      if (this.cache.size > this.options.cacheSize) this.cache.delete(this.cache.keys().next().value!);
+    }
+    return result;
+  }
+
+  // 并行抓取（各主机各自限流），结果与输入顺序一致
+  fetchAll(urls: string[], signal?: AbortSignal): Promise<PageFetchResult[]> {
+    return Promise.all([...new Set(urls)].map(url => this.fetch(url, signal)));
+  }
+
+  private async load(url: string, signal?: AbortSignal): Promise<PageFetchResult> {
+    const target = new URL(url);
+    if (target.protocol === 'file:') return this.loadFile(target);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return { url, status: 'unsupported', error: `protocol ${target.protocol}` };
+    }
+
+    return this.limiter.run(target.host, async () => {
+      const reason = this.options.allowPrivateHosts ? null : await privateHostReason(target);
+      if (reason) {
+        console.log(`[Pages] 拒绝抓取 ${url}: ${reason}`);
+        return { url, status: 'blocked', error: reason };
+      }
+      if (this.options.respectRobots && !(await this.allowed(target, signal))) {
+        console.log(`[Pages] robots.txt 不允许: ${url}`);
+        return { url, status: 'blocked' };
+      }
+      const response = await this.request(target, {
+        Accept: 'text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.5',
+      }, signal);
+      if ('blocked' in response) {
+        console.log(`[Pages] 拒绝抓取 ${url}: ${response.blocked}`);
+        return { url, status: 'blocked', error: response.blocked };
+      }
+      const { res } = response;
+      const finalUrl = response.url.href;
+      if (!res.ok) return { url, status: 'failed', error: `HTTP ${res.status}` };
+      const contentType = res.headers.get('content-type') ?? '';
+      const kind = kindOf(contentType, finalUrl);
+      if (!kind) {
+        await res.body?.cancel();
+        return { url, status: 'unsupported', error: contentType || 'unknown content type' };
+      }
+      const bytes = await readLimited(res, this.options.maxBytes);
+      const page = await extractPage(bytes, kind, contentType, url, finalUrl, this.options.maxChars);
+      console.log(`[Pages] ${kind} ${url}: ${page.content.length} 字`);
+      return page.content ? { url, status: 'ok', page } : { url, status: 'failed', error: 'empty content' };
+    });
+  }
+
+  // 本地文件（corpus 搜索的结果）：只允许语料库目录内的文件
+  private async loadFile(target: URL): Promise<PageFetchResult> {
+    const url = target.href;
+    const file = path.resolve(fileURLToPath(target));
+    const root = path.resolve(CFG.SEARCH_CORPUS_DIR);
+    if (file !== root && !file.startsWith(root + path.sep)) {
+      return { url, status: 'blocked', error: 'outside SEARCH_CORPUS_DIR' };
+    }
+    const ext = path.extname(file).toLowerCase();
+    const kind = kindOf(ext === '.pdf' ? 'application/pdf' : '', url);
+    if (!kind) return { url, status: 'unsupported', error: ext };
+    const bytes = new Uint8Array(await fsp.readFile(file));
+    const page = await extractPage(bytes, kind, '', url, url, this.options.maxChars);
+    return page.content ? { url, status: 'ok', page } : { url, status: 'failed', error: 'empty content' };
+  }
+
+  // 手动跟随重定向，每一跳都重新检查协议与目标地址，避免被导向内网或元数据服务；
+  // 主机名在连线时由 guardedLookup 检查解析结果
+  private async request(
+    url: URL, headers: Record<string, string>, signal?: AbortSignal
+  ): Promise<{ res: Response; url: URL } | { blocked: string }> {
+    const timeout = this.timeoutSignal(signal);
+    let current = url;
+    for (let hop = 0; ; hop++) {
+      if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+        return { blocked: `redirect to ${current.protocol}` };
+      }
+      const reason = this.options.allowPrivateHosts ? null : literalAddressReason(current);
+      if (reason) return { blocked: reason };
+      let res: Response;
+      try {
+        res = await fetch(current, {
+          headers: { 'User-Agent': this.options.userAgent, ...headers },
+          redirect: 'manual',
+          signal: timeout,
+          ...(this.options.allowPrivateHosts ? {} : { dispatcher: guardedAgent }),
+        });
+      } catch (error) {
+        const denied = deniedReason(error);
+        if (denied) return { blocked: denied };
+        throw error;
+      }
+      const location = res.headers.get('location');
+      if (res.status < 300 || res.status >= 400 || !location) return { res, url: current };
+      await res.body?.cancel();
+      if (hop >= MAX_REDIRECTS) throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+      current = new URL(location, current);
+    }
+  }
+
+  private timeoutSignal(signal?: AbortSignal): AbortSignal {
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+  }
+
+  // robots.txt 按来源缓存 ROBOTS_TTL_MS；4xx 视为全部允许，5xx 与无法连线视为全部禁止（RFC 9309）
+  private async allowed(target: URL, signal?: AbortSignal): Promise<boolean> {
+    const pathAndQuery = target.pathname + target.search;
+    const cached = this.robots.get(target.origin);
+    if (cached && Date.now() - cached.ts <= ROBOTS_TTL_MS) return isPathAllowed(await cached.rules, pathAndQuery);
+
+    const entry = { rules: this.loadRobots(target.origin, signal), ts: Date.now() };
+    this.robots.set(target.origin, entry);
+    const rules = await entry.rules;
+    // 被中止的请求不代表站点不可达，不缓存
+    if (signal?.aborted && this.robots.get(target.origin) === entry) this.robots.delete(target.origin);
+    return isPathAllowed(rules, pathAndQuery);
+  }
+
+  private async loadRobots(origin: string, signal?: AbortSignal): Promise<RobotsRules> {
+    try {
+      const response = await this.request(new URL('/robots.txt', origin), {}, signal);
+      if ('blocked' in response) return DISALLOW_ALL;
+      const { res } = response;
+      if (res.status >= 500) return DISALLOW_ALL;
+      if (!res.ok) return ALLOW_ALL;
+      return parseRobots(await res.text(), this.options.userAgent);
+    } catch {
+      return DISALLOW_ALL;
+    }
+  }
+}
+
+// 进程内共享一个实例（各次执行共用页面缓存、robots.txt 缓存与按主机限流）
+let sharedFetcher: PageFetcher | null = null;
+
+export function getPageFetcher(): PageFetcher {
+  sharedFetcher ??= new PageFetcher();
+  return sharedFetcher;
+}
@@ -1,59 +1,190 @@
-import { Source, Fact, RouterPlan, FactCheckReport, Emit, Settings } from '../types.js';
-import { CFG } from './config.js';
-import { TokenTracker } from './utils.js';
+import {
+  Source, Fact, RouterPlan, FactCheckReport, HypothesisReport, DataQualityReport, Emit, Settings, StageName,
+  AttachedDocument, LLMProvider, FetchedPage, SourcePassage
+} from '../types.js';
+import { CFG, PipelineConfig, PipelineConfigManager, TOKEN_OPTIMIZATION } from './config.js';
+import { TokenTracker, smartTruncate } from './utils.js';
 import { WebSearch } from './search.js';
+import { Cassette, activeCassette } from './cassette.js';
+import { PageFetcher, getPageFetcher } from './pages.js';
+import { PassageIndex } from './retrieval.js';
+import { groundCitations } from './grounding.js';
 import { 
   RouterAgent, 
   ResearcherAgent, 
   AnalystAgent, 
+  CausalAnalystAgent, 
+  HypothesisAgent, 
   WriterAgent, 
   FactCheckerAgent, 
-  CriticAgent 
+  CriticAgent,
+  NliJudgeAgent,
+  MemorizerAgent,
+  HistorySummarizerAgent,
+  PromptContext
 } from './agents.js';
 import { CredibilityEvaluator } from './credibility.js';
+import { CitationBuilder } from './citations.js';
+import { BiasAnalyzer } from './bias.js';
+import { DataQualityEvaluator } from './data-quality.js';
+import { MemoryManager, getMemoryManager, formatMemoryBrief } from './memory.js';
+import { ThreadStore, getThreadStore, formatThreadHistory, titleFromQuestion } from './threads.js';
+import { StageGraph, StageGraphResult } from './stage-graph.js';
+import { BudgetScheduler } from './budget.js';
+
+// 各阶段在流程中共享的状态（阶段按声明的 inputs / outputs 读写）
+export interface PipelineState {
+  threadId: string | null;
+  memoryScope: string | undefined;
+  context: PromptContext;
+  plan: RouterPlan;
+  sources: Source[];
+  pages: FetchedPage[];
+  passages: SourcePassage[];
+  facts: Fact[];
+  dataQuality: DataQualityReport | undefined;
+  analysis: string;
+  response: string;
+  factCheck: FactCheckReport | undefined;
+}
+
+// 速度模式对应的阶段；顺序由阶段间的依赖决定。
+// research / analysis / causal / factcheck / critique 另需 Router 在 steps 中规划才会执行。
+// 因果分析与 Critic 修订循环耗时最多，只在 thorough 执行
+export const PIPELINE_PRESETS: Record<Settings['speedMode'], StageName[]> = {
+  fast: ['context', 'router', 'search', 'fetch', 'retrieve', 'research', 'citations', 'analysis', 'write', 'record'],
+  balanced: [
+    'context', 'router', 'search', 'fetch', 'retrieve', 'research', 'citations', 'bias', 'dataQuality',
+    'analysis', 'write', 'factcheck', 'credibility', 'record',
+  ],
+  thorough: [
+    'context', 'router', 'search', 'fetch', 'retrieve', 'research', 'citations', 'bias', 'dataQuality',
+    'analysis', 'causal', 'write', 'critique', 'factcheck', 'credibility', 'record',
+  ],
+};
+
+// 阶段只在 Router 规划了对应步骤时执行
+function planned(step: string) {
+  return (state: PipelineState) => state.plan.steps.includes(step);
+}
+
+// 附加文件压成一段提示词上下文（每份文件以标题开头），Router / Writer 只看到开头的摘录
+function formatDocuments(documents: AttachedDocument[] = []): string {
+  return documents
+    .map((d, i) => `[${i + 1}] ${d.title || d.url || 'document'}: ${d.content.replace(/\s+/g, ' ').trim()}`)
+    .join('\n');
+}
+
+// 附加文件当作来源：网址沿用文件的 url，没有时为 document:<序号>；全文直接作为页面，不经抓取，
+// 之后与网页全文一起切段检索，研究、事实检查与行内引用都能用到文件内容
+function documentSources(documents: AttachedDocument[] = []): { sources: Source[]; pages: FetchedPage[] } {
+  const sources: Source[] = [];
+  const pages: FetchedPage[] = [];
+  documents.forEach((d, i) => {
+    const url = d.url || `document:${i + 1}`;
+    if (!d.content.trim() || sources.some(s => s.url === url)) return;
+    const title = d.title || d.url || `document ${i + 1}`;
+    sources.push({ title, url, snippet: smartTruncate(d.content.replace(/\s+/g, ' ').trim(), 200) });
+    pages.push({ url, finalUrl: url, title, contentType: 'text', content: d.content, fetchedAt: Date.now() });
+  });
+  return { sources, pages };
+}
+
+export interface ResearchPipelineOptions {
+  memory?: MemoryManager;
+  threads?: ThreadStore;
+  pageFetcher?: PageFetcher;
+  config?: PipelineConfig;
+  llm?: LLMProvider;  // 所有 agent 改用此提供者（如测试时注入 ScriptedProvider），否则按角色从 CFG 选择
+  cassette?: Cassette;  // 模型与搜索请求经过此录制文件（record / replay），否则按 CFG.CASSETTE_MODE
+}
 
 // 主研究流程
 export class ResearchPipeline {
   private webSearch: WebSearch;
+  private pageFetcher: PageFetcher;
   private routerAgent: RouterAgent;
   private researcherAgent: ResearcherAgent;
   private analystAgent: AnalystAgent;
+  private causalAnalystAgent: CausalAnalystAgent;
+  private hypothesisAgent: HypothesisAgent;
   private writerAgent: WriterAgent;
   private factCheckerAgent: FactCheckerAgent;
   private criticAgent: CriticAgent;
+  private nliJudgeAgent: NliJudgeAgent;
+  private memorizerAgent: MemorizerAgent;
+  private historySummarizerAgent: HistorySummarizerAgent;
+  private memory: MemoryManager;
+  private threads: ThreadStore;
   private credibilityEvaluator: CredibilityEvaluator;
+  private citationBuilder: CitationBuilder;
+  private biasAnalyzer: BiasAnalyzer;
+  private dataQualityEvaluator: DataQualityEvaluator;
   private tokenTracker: TokenTracker;
+  private cassette: Cassette | null;
+  private config: Required<PipelineConfig>;
+  private graph: StageGraph<PipelineState>;
 
-  constructor() {
+  constructor(options: ResearchPipelineOptions = {}) {
+    const validationErrors = PipelineConfigManager.validateConfig(options.config ?? {});
+    if (validationErrors.length > 0) {
+      throw new Error(`Invalid configuration: ${validationErrors.join(', ')}`);
+    }
+    this.config = PipelineConfigManager.mergeConfig(options.config ?? {});
+    this.memory = options.memory ?? getMemoryManager();
+    this.threads = options.threads ?? getThreadStore();
     this.webSearch = new WebSearch();
+    // 指定录制文件时另建抓取器，不影响其他执行共用的实例
+    this.pageFetcher = options.pageFetcher ?? (options.cassette ? new PageFetcher({}, options.cassette) : getPageFetcher());
     this.routerAgent = new RouterAgent();
     this.researcherAgent = new ResearcherAgent();
     this.analystAgent = new AnalystAgent();
+    this.causalAnalystAgent = new CausalAnalystAgent();
+    this.hypothesisAgent = new HypothesisAgent();
     this.writerAgent = new WriterAgent();
     this.factCheckerAgent = new FactCheckerAgent();
     this.criticAgent = new CriticAgent();
+    this.nliJudgeAgent = new NliJudgeAgent();
+    this.memorizerAgent = new MemorizerAgent();
+    this.historySummarizerAgent = new HistorySummarizerAgent();
     this.credibilityEvaluator = new CredibilityEvaluator();
+    if (CFG.NLI_LLM_JUDGE) this.credibilityEvaluator.setContradictionJudge(this.nliJudgeAgent);
+    this.citationBuilder = new CitationBuilder();
+    this.biasAnalyzer = new BiasAnalyzer();
+    this.dataQualityEvaluator = new DataQualityEvaluator();
     this.tokenTracker = new TokenTracker();
     
     // 为所有agents设置token追踪器
-    this.routerAgent.setTokenTracker(this.tokenTracker);
-    this.researcherAgent.setTokenTracker(this.tokenTracker);
-    this.analystAgent.setTokenTracker(this.tokenTracker);
-    this.writerAgent.setTokenTracker(this.tokenTracker);
-    this.factCheckerAgent.setTokenTracker(this.tokenTracker);
-    this.criticAgent.setTokenTracker(this.tokenTracker);
+    this.agents().forEach(agent => agent.setTokenTracker(this.tokenTracker));
+    if (options.llm) this.agents().forEach(agent => agent.setLLMProvider(options.llm!));
+    this.cassette = options.cassette ?? activeCassette();
+    if (options.cassette) {
+      const cassette = options.cassette;
+      this.agents().forEach(agent => agent.setLLMProvider(cassette.wrapLLM(agent.getLLMProvider())));
+      this.webSearch.setCassette(cassette);
+    }
+    
+    this.graph = this.buildGraph();
   }
 
-  // 运行完整的研究流程
+  // 运行完整的研究流程；signal 中止（如客户端断线）时停止后续阶段并中止进行中的请求
   async runPipeline(
     question: string,
     settings: Settings,
-    emit: Emit
+    emit: Emit,
+    signal?: AbortSignal
   ): Promise<void> {
     console.log(`[Pipeline] 开始处理问题: "${question}"`);
     console.log(`[Pipeline] 设置:`, settings);
     
     const startTime = Date.now();
+    // 用量只计本次执行（评测等场景会重用同一个 pipeline）
+    this.tokenTracker.reset();
+    
+    // 按请求切换搜索提供者
+    if (settings.searchProvider) {
+      this.webSearch.setProvider(settings.searchProvider);
+    }
     
     // 计算问题的 token 数
     const questionTokens = TokenTracker.countTokens(question);
@@ -67,80 +198,40 @@ export class ResearchPipeline {
     const actualPromptTokens = questionTokens + systemPromptTokens;
     console.log(`[Pipeline] 实际 prompt tokens: ${actualPromptTokens}`);
     
+    // 初始状态；router 之类的阶段产出在运行时写入。附加文件预先放入来源与全文
+    const attached = documentSources(settings.documents);
+    const state = {
+      threadId: null,
+      // 跨会话记忆（需请求带 memoryScope）
+      memoryScope: CFG.MEMORY_ENABLED ? settings.memoryScope : undefined,
+      context: {},
+      sources: attached.sources,
+      pages: attached.pages,
+      passages: [],
+      facts: [],
+      dataQuality: undefined,
+      analysis: '',
+      factCheck: undefined,
+    } as Omit<PipelineState, 'plan' | 'response'> as PipelineState;
+    
+    // 时间预算：按阶段预估成本切分 timeLimitMs，超时的请求会被中止
+    const budget = new BudgetScheduler(settings.timeLimitMs);
+    
     try {
-      // 1. 路由器阶段
-      await emit('status', { stage: 'router', message: '正在分析问题并制定研究计划...' });
-      const plan = await this.routerAgent.plan(question, settings.lang);
-      await emit('router', plan);
+      const result = await this.graph.run(this.stagesFor(settings.speedMode), state, { question, settings, emit, budget, signal });
+      console.log('[Pipeline] 阶段结果:', result);
       
-      // 2. 搜索阶段
-      let sources: Source[] = [];
-      if (plan.useWeb) {
-        try {
-          await emit('status', { stage: 'search', message: '正在搜索相关信息...' });
-          sources = await this.performWebSearch(question, plan, settings);
-          console.log('[Pipeline] 搜索完成，找到', sources.length, '个来源');
-          console.log('[Pipeline] 发送sources事件');
-          await emit('sources', sources);
-          console.log('[Pipeline] sources事件已发送');
-        } catch (error) {
-          console.error('[Pipeline] 搜索阶段失败:', error);
-          const errorMessage = error instanceof Error ? error.message : '未知错误';
-          await emit('error', { message: '搜索失败', error: errorMessage });
-          sources = []; // 确保sources有值
-        }
+      if (result.cancelled) {
+        const tokenUsage = this.tokenTracker.usage();
+        console.log(`[Pipeline] 流程已取消，耗时: ${Date.now() - startTime}ms，已用 tokens:`, tokenUsage);
+        await emit('status', { stage: 'cancelled', message: '流程已取消', tokenUsage, stages: this.stageSummary(result) });
+        return;
       }
       
-      // 3. 研究阶段
-      let facts: any[] = [];
-      try {
-        await emit('status', { stage: 'research', message: '正在提取和分析事实...' });
-        facts = await this.researcherAgent.extractFacts(sources, question, settings.lang);
-        console.log('[Pipeline] 事实提取完成，找到', facts.length, '个事实');
-        console.log('[Pipeline] 发送facts事件');
-        await emit('facts', facts);
-        console.log('[Pipeline] facts事件已发送');
-      } catch (error) {
-        console.error('[Pipeline] 研究阶段失败:', error);
-        const errorMessage = error instanceof Error ? error.message : '未知错误';
-        await emit('error', { message: '事实提取失败', error: errorMessage });
-        // 创建空的事实数组，确保流程继续
-        facts = [];
-        await emit('facts', facts);
+      if (budget.limited) {
+        await emit('budget', budget.report());
       }
       
-      // 4. 分析阶段
-      await emit('status', { stage: 'analysis', message: '正在分析事实并提供见解...' });
-      const analysis = await this.analystAgent.analyze(facts, question, settings.lang);
-      await emit('analysis', analysis);
-      
-      // 5. 写作阶段
-      await emit('status', { stage: 'writing', message: '正在撰写综合回答...' });
-      const response = await this.writerAgent.write(analysis, facts, question, settings.lang);
-      console.log('[Pipeline] 写作完成，发送response事件');
-      await emit('response', response);
-      console.log('[Pipeline] response事件已发送');
-      
-      // 6. 事实检查阶段
-      await emit('status', { stage: 'factcheck', message: '正在验证事实准确性...' });
-      const factCheckReport = await this.factCheckerAgent.factCheck(response, sources, settings.lang);
-      console.log('[Pipeline] 事实检查完成，发送factcheck事件');
-      await emit('factcheck', factCheckReport);
-      console.log('[Pipeline] factcheck事件已发送');
-      
-      // 7. 评论阶段
-      await emit('status', { stage: 'critique', message: '正在提供改进建议...' });
-      const critique = await this.criticAgent.critique(response, settings.lang);
-      console.log('[Pipeline] 评论完成，发送critique事件');
-      await emit('critique', critique);
-      console.log('[Pipeline] critique事件已发送');
-      
-      // 8. 可信度评估阶段
-      await emit('status', { stage: 'credibility', message: '正在评估内容可信度...' });
-      console.log('[Pipeline] 开始可信度评估');
-      await this.performCredibilityAssessment(facts, sources, response, emit);
-      console.log('[Pipeline] 可信度评估完成');
-      
       // 9. 完成
       const endTime = Date.now();
       const totalTime = endTime - startTime;
@@ -154,11 +245,15 @@ export class ResearchPipeline {
         actualPromptTokens
       });
       
-      await emit('status', { stage: 'complete', message: '研究完成！' });
+      if (!result.aborted) {
+        await emit('status', { stage: 'complete', message: '研究完成！' });
+      }
       await emit('performance', {
         totalTime,
         tokenUsage: this.tokenTracker.usage(),
-        credibilityStats: this.credibilityEvaluator.getPerformanceStats()
+        credibilityStats: this.credibilityEvaluator.getPerformanceStats(),
+        stages: this.stageSummary(result),
+        ...(budget.limited ? { budget: budget.report() } : {})
       });
       
       console.log(`[Pipeline] 流程完成，总耗时: ${totalTime}ms`);
@@ -167,20 +262,491 @@ export class ResearchPipeline {
       console.error('[Pipeline] 流程执行失败:', error);
       const errorMessage = error instanceof Error ? error.message : '未知错误';
       await emit('error', { message: '流程执行失败', error: errorMessage });
+    } finally {
+      this.agents().forEach(agent => agent.setAbortSignal(undefined));
+      await this.cassette?.save().catch(error => {
+        console.warn('[Pipeline] 保存录制文件失败:', error instanceof Error ? error.message : error);
+      });
+      await emit('done', {});
+    }
+  }
+
+  // 当前速度模式要执行的阶段（配置可覆盖默认预设）
+  stagesFor(speedMode: Settings['speedMode']): StageName[] {
+    return this.config.presets[speedMode] ?? PIPELINE_PRESETS[speedMode] ?? PIPELINE_PRESETS.balanced;
+  }
+
+  private agents() {
+    return [
+      this.routerAgent, this.researcherAgent, this.analystAgent, this.causalAnalystAgent, this.hypothesisAgent,
+      this.writerAgent, this.factCheckerAgent, this.criticAgent, this.nliJudgeAgent, this.memorizerAgent,
+      this.historySummarizerAgent,
+    ];
+  }
+
+  private stageSummary(result: StageGraphResult) {
+    return { completed: result.completed, skipped: result.skipped, failed: result.failed };
+  }
+
+  // 注册全部阶段节点；speedMode 只决定选用哪些节点。cost 为预估耗时（毫秒），用于切分时间预算
+  private buildGraph(): StageGraph<PipelineState> {
+    // 每个阶段开始时把其时间片的 signal 交给所有 agent，到期即中止进行中的请求
+    return new StageGraph<PipelineState>({
+      onStageStart: (_stage, { signal }) => this.agents().forEach(agent => agent.setAbortSignal(signal)),
+    })
+      // 0. 载入对话历史并检索相关记忆
+      .register({
+        name: 'context',
+        inputs: ['memoryScope'],
+        outputs: ['threadId', 'context'],
+        errorMessage: '载入上下文失败',
+        run: async (state, { question, settings, emit }) => {
+          const threadId = settings.threadId ? await this.openThread(settings.threadId, question, emit) : null;
+          const context: PromptContext = {
+            history: threadId ? await this.threadHistory(threadId) : settings.history ?? '',
+            memory: state.memoryScope ? await this.recallMemory(state.memoryScope, question, emit) : '',
+            documents: formatDocuments(settings.documents),
+          };
+          return { threadId, context };
+        },
+      })
+      // 1. 路由器阶段
+      .register({
+        name: 'router',
+        inputs: ['context'],
+        outputs: ['plan'],
+        message: '正在分析问题并制定研究计划...',
+        errorMessage: '路由规划失败',
+        critical: true,
+        cost: 2000,
+        // 超时则不规划，走最小流程
+        fallback: async (_state, { settings, emit }) => {
+          const plan: RouterPlan = { useWeb: settings.useWeb, topic: 'general', steps: ['research', 'write'], maxIterations: 1 };
+          await emit('plan', plan);
+          return { plan };
+        },
+        run: async (state, { question, settings, emit }) => {
+          const plan = await this.routerAgent.plan(question, settings.lang, state.context);
+          await emit('plan', plan);
+          return { plan };
+        },
+      })
+      // 2. 搜索阶段（附加文件排在网页来源之前；不用网络时只送出文件来源）
+      .register({
+        name: 'search',
+        inputs: ['plan', 'sources'],
+        outputs: ['sources'],
+        message: '正在搜索相关信息...',
+        errorMessage: '搜索失败',
+        when: state => state.plan.useWeb || state.sources.length > 0,
+        cost: 4000,
+        handlesAbort: true,
+        run: async (state, { question, settings, emit, budget, signal, slice }) => {
+          if (!state.plan.useWeb) {
+            await emit('sources', state.sources);
+            return { sources: state.sources };
+          }
+          // 时间片不足预估成本时减少查询与来源数量
+          const ratio = slice?.ratio ?? 1;
+          const maxSources = ratio < 1 ? Math.max(2, Math.round(this.config.maxSources * ratio)) : this.config.maxSources;
+          if (maxSources < this.config.maxSources) {
+            budget?.cut('search', 'reduced', `来源上限 ${this.config.maxSources} → ${maxSources}，只使用原始查询`);
+          }
+          const web = await this.performWebSearch(question, state.plan, settings, { maxSources, expand: ratio >= 1 }, signal);
+          if (signal?.aborted) budget?.cut('search', 'timeout', `只保留已取得的 ${web.length} 个来源`);
+          const sources = [...state.sources, ...web.filter(s => !state.sources.some(d => d.url === s.url))];
+          console.log('[Pipeline] 搜索完成，找到', sources.length, '个来源');
+          await emit('sources', sources);
+          return { sources };
+        },
+      })
+      // 抓取来源全文，供研究与事实检查使用段落而非搜索摘要
+      .register({
+        name: 'fetch',
+        inputs: ['sources', 'pages'],
+        outputs: ['pages'],
+        message: '正在读取来源全文...',
+        errorMessage: '来源全文读取失败',
+        // 附加文件已有全文，只抓取网页来源
+        when: state => CFG.PAGE_FETCH_ENABLED && state.sources.some(s => !state.pages.some(p => p.url === s.url)),
+        cost: 6000,
+        handlesAbort: true,
+        run: async (state, { settings, emit, budget, signal, slice }) => {
+          const max = settings.speedMode === 'fast' ? CFG.FETCH_PAGES_FAST
+            : settings.speedMode === 'thorough' ? CFG.FETCH_PAGES_THO : CFG.FETCH_PAGES_BAL;
+          const ratio = slice?.ratio ?? 1;
+          const limit = ratio < 1 ? Math.max(1, Math.round(max * ratio)) : max;
+          if (limit < max) budget?.cut('fetch', 'reduced', `全文抓取上限 ${max} → ${limit}`);
+          const urls = state.sources.map(s => s.url).filter(url => !state.pages.some(p => p.url === url));
+          const results = await this.pageFetcher.fetchAll(urls.slice(0, limit), signal);
+          if (signal?.aborted) budget?.cut('fetch', 'timeout', '部分来源未完成抓取');
+          const pages = [...state.pages, ...results.flatMap(r => (r.page ? [r.page] : []))];
+          console.log('[Pipeline] 全文抓取完成，成功', results.filter(r => r.page).length, '/', results.length, '个来源');
+          await emit('pages', results.map(r => ({
+            url: r.url,
+            status: r.status,
+            title: r.page?.title,
+            contentType: r.page?.contentType,
+            chars: r.page?.content.length ?? 0,
+            error: r.error,
+          })));
+          return { pages };
+        },
+      })
+      // 段落检索：来源全文（或摘要）切段，以问题与子问题排序，取前几段交给研究阶段
+      .register({
+        name: 'retrieve',
+        inputs: ['plan', 'sources', 'pages'],
+        outputs: ['passages'],
+        errorMessage: '段落检索失败',
+        when: state => planned('research')(state) && state.sources.length > 0,
+        cost: 1500,
+        run: async (state, { question, emit }) => {
+          const index = PassageIndex.fromSources(state.sources, state.pages, TOKEN_OPTIMIZATION.MAX_PASSAGE_LENGTH);
+          const passages = await index.search([question, ...(state.plan.subQuestions ?? [])], {
+            limit: TOKEN_OPTIMIZATION.MAX_PASSAGES,
+            perSource: TOKEN_OPTIMIZATION.MAX_PASSAGES_PER_SOURCE,
+          });
+          console.log('[Pipeline] 段落检索完成，', index.size, '段中选出', passages.length, '段');
+          await emit('passages', passages);
+          return { passages };
+        },
+      })
+      // 3. 研究阶段
+      .register({
+        name: 'research',
+        inputs: ['plan', 'sources', 'passages'],
+        outputs: ['facts'],
+        message: '正在提取和分析事实...',
+        errorMessage: '事实提取失败',
+        when: planned('research'),
+        cost: 5000,
+        run: async (state, { question, settings, emit }) => {
+          const facts = await this.researcherAgent.extractFacts(
+            state.sources, question, settings.lang, state.passages, state.plan.subQuestions
+          );
+          console.log('[Pipeline] 事实提取完成，找到', facts.length, '个事实');
+          await emit('facts', facts);
+          return { facts };
+        },
+      })
+      // 引用文献生成（APA / MLA / Chicago / Harvard）
+      .register({
+        name: 'citations',
+        inputs: ['sources', 'facts'],
+        outputs: [],
+        errorMessage: '引用生成失败',
+        run: async (state, { emit }) => {
+          const citationReport = this.citationBuilder.build(state.sources, state.facts);
+          console.log('[Pipeline] 引用生成完成，共', citationReport.totalCitations, '条');
+          await emit('citations', citationReport);
+        },
+      })
+      // 偏见分析（来源、地理、语言、时间分布）
+      .register({
+        name: 'bias',
+        inputs: ['sources'],
+        outputs: [],
+        errorMessage: '偏见分析失败',
+        run: async (state, { question, emit }) => {
+          const biasReport = this.biasAnalyzer.analyze(state.sources, question);
+          console.log('[Pipeline] 偏见分析完成，等级:', biasReport.overallBiasLevel, '分数:', biasReport.biasScore);
+          await emit('bias', biasReport);
+        },
+      })
+      // 数据质量评估（结果并入可信度评分）
+      .register({
+        name: 'dataQuality',
+        inputs: ['sources', 'facts'],
+        outputs: ['dataQuality'],
+        errorMessage: '数据质量评估失败',
+        run: async (state, { emit }) => {
+          const dataQuality = this.dataQualityEvaluator.evaluate(state.sources, state.facts);
+          console.log('[Pipeline] 数据质量评估完成，等级:', dataQuality.qualityLevel, '分数:', dataQuality.overallScore);
+          await emit('dataQuality', dataQuality);
+          return { dataQuality };
+        },
+      })
+      // 4. 分析阶段
+      .register({
+        name: 'analysis',
+        inputs: ['facts'],
+        outputs: ['analysis'],
+        message: '正在分析事实并提供见解...',
+        errorMessage: '分析失败',
+        when: planned('analyze'),
+        cost: 3000,
+        run: async (state, { question, settings, emit }) => {
+          const analysis = await this.analystAgent.analyze(state.facts, question, settings.lang);
+          await emit('analysis', analysis);
+          return { analysis };
+        },
+      })
+      // 因果分析（路由规划包含 causal 步骤时）
+      .register({
+        name: 'causal',
+        inputs: ['plan', 'facts'],
+        outputs: [],
+        message: '正在梳理因果关系...',
+        errorMessage: '因果分析失败',
+        when: planned('causal'),
+        cost: 4000,
+        run: async (state, { question, settings, emit }) => {
+          const causalAnalysis = await this.causalAnalystAgent.analyze(state.facts, question, settings.lang);
+          console.log('[Pipeline] 因果分析完成，因果链', causalAnalysis.chains.length, '条');
+          await emit('causal', causalAnalysis);
+        },
+      })
+      // 5. 写作阶段
+      .register({
+        name: 'write',
+        inputs: ['analysis', 'facts', 'sources', 'context'],
+        outputs: ['response'],
+        message: '正在撰写综合回答...',
+        errorMessage: '写作失败',
+        critical: true,
+        cost: 8000,
+        handlesAbort: true,
+        run: async (state, { question, settings, emit, budget, signal, slice }) => {
+          const draft = await this.writeResponse(state, question, settings, emit);
+          if (signal?.aborted) budget?.cut('write', 'truncated', `回答在 ${slice?.ms}ms 时间片用完时截断`);
+          console.log('[Pipeline] 写作完成，发送response事件');
+          await emit('draft', { iteration: 1, text: draft });
+          // 校验行内引用，response 事件附上引用对照
+          const grounded = groundCitations(draft, state.sources, state.facts);
+          await emit('response', grounded);
+          return { response: grounded.text };
+        },
+      })
+      // 6. 事实检查阶段
+      .register({
+        name: 'factcheck',
+        inputs: ['response', 'sources', 'pages'],
+        outputs: ['factCheck'],
+        message: '正在验证事实准确性...',
+        errorMessage: '事实检查失败',
+        when: planned('factcheck'),
+        cost: 4000,
+        run: async (state, { settings, emit }) => {
+          // 以回答内容检索全文中的佐证段落（只用全文，摘要已在来源列表中）
+          const index = PassageIndex.fromSources(state.sources, state.pages, TOKEN_OPTIMIZATION.MAX_PASSAGE_LENGTH);
+          const passages = state.pages.length === 0 ? [] : (await index.search([state.response], { limit: index.size, perSource: 1 }))
+            .filter(p => p.origin === 'page')
+            .slice(0, TOKEN_OPTIMIZATION.MAX_FACTCHECK_PASSAGES);
+          let factCheck: FactCheckReport;
+          if (settings.consensus ?? CFG.CONSENSUS_ENABLED) {
+            const result = await this.factCheckerAgent.factCheckWithConsensus(state.response, state.sources, settings.lang, passages);
+            console.log('[Pipeline] 事实检查共识完成，一致度:', result.consensus.agreement);
+            await emit('consensus', { stage: 'factcheck', ...result.consensus, votes: result.votes });
+            factCheck = result.report;
+          } else {
+            factCheck = await this.factCheckerAgent.factCheck(state.response, state.sources, settings.lang, passages);
+          }
+          await emit('factcheck', factCheck);
+          return { factCheck };
+        },
+      })
+      // 7. 评论阶段：Writer → Critic → 修订，最多 plan.maxIterations 轮，Critic 通过即停止
+      .register({
+        name: 'critique',
+        inputs: ['plan', 'response', 'facts', 'sources'],
+        outputs: ['response'],
+        message: '正在评审并修订回答...',
+        errorMessage: '评论失败',
+        when: planned('critique'),
+        cost: 6000,
+        handlesAbort: true,
+        run: async (state, { question, settings, emit, budget, signal }) => {
+          let response = state.response;
+          const rounds = Math.max(1, state.plan.maxIterations);
+          for (let iteration = 1; iteration <= rounds; iteration++) {
+            // 时间片用完则保留当前版本
+            if (signal?.aborted) {
+              budget?.cut('critique', 'reduced', `只完成 ${iteration - 1} / ${rounds} 轮评审`);
+              break;
+            }
+            try {
+              const critique = await this.criticAgent.critique(response, state.facts, settings.lang);
+              console.log(`[Pipeline] 第 ${iteration} 轮评审:`, critique.verdict);
+              await emit('critique', { iteration, ...critique });
+              if (critique.verdict === 'approve') break;
+              
+              await emit('status', { stage: 'critique', message: `正在根据第 ${iteration} 轮评审修订回答...` });
+              response = await this.writerAgent.revise(response, critique, state.facts, question, settings.lang, state.sources);
+              await emit('draft', { iteration: iteration + 1, text: response });
+            } catch (error) {
+              if (!signal?.aborted) throw error;
+              budget?.cut('critique', 'reduced', `第 ${iteration} 轮评审未完成，保留第 ${iteration} 版`);
+              break;
+            }
+          }
+          // 修订过则以最终版本覆盖前端已串接的回答
+          if (response === state.response) return { response };
+          const grounded = groundCitations(response, state.sources, state.facts);
+          await emit('response', grounded);
+          return { response: grounded.text };
+        },
+      })
+      // 8. 可信度评估阶段
+      .register({
+        name: 'credibility',
+        inputs: ['facts', 'sources', 'response', 'dataQuality'],
+        outputs: [],
+        message: '正在评估内容可信度...',
+        errorMessage: '可信度评估失败',
+        cost: 5000,
+        run: async (state, { question, settings, emit }) => {
+          await this.performCredibilityAssessment(
+            state.facts, state.sources, state.response, question, settings, emit, state.dataQuality
+          );
+        },
+      })
+      // 保存本轮问答到对话串与记忆
+      .register({
+        name: 'record',
+        inputs: ['threadId', 'memoryScope', 'response', 'sources', 'facts'],
+        outputs: [],
+        errorMessage: '保存对话失败',
+        when: state => !!state.threadId || !!state.memoryScope,
+        run: async (state, { question, emit }) => {
+          if (state.threadId) {
+            await this.recordTurn(state.threadId, question, state.response, state.sources, state.facts, emit);
+          }
+          if (state.memoryScope) {
+            await this.rememberExchange(state.memoryScope, question, state.response, emit);
+          }
+        },
+      });
+  }
+
+  // 撰写回答：共识模式多模型投票，否则逐段转发模型输出（enableStreaming 关闭时一次送出）
+  private async writeResponse(state: PipelineState, question: string, settings: Settings, emit: Emit): Promise<string> {
+    if (settings.consensus ?? CFG.CONSENSUS_ENABLED) {
+      const result = await this.writerAgent.writeWithConsensus(
+        state.analysis, state.facts, question, settings.lang, state.context, state.sources
+      );
+      console.log('[Pipeline] 写作共识完成，一致度:', result.consensus.agreement);
+      await emit('consensus', { stage: 'writer', ...result.consensus, votes: result.votes });
+      return result.text;
+    }
+    if (!this.config.enableStreaming) {
+      const response = await this.writerAgent.write(state.analysis, state.facts, question, settings.lang, state.context, state.sources);
+      await emit('writer', { chunk: response });
+      return response;
+    }
+    return await this.writerAgent.writeStream(
+      state.analysis, state.facts, question, settings.lang,
+      chunk => emit('writer', { chunk }),
+      state.context,
+      state.sources
+    );
+  }
+
+  // 取得（不存在时建立）对话串，返回其 ID
+  private async openThread(id: string, question: string, emit: Emit): Promise<string | null> {
+    try {
+      const thread = await this.threads.get(id) ?? await this.threads.create(titleFromQuestion(question), id);
+      await emit('thread', { id: thread.id, title: thread.title, turnCount: thread.turns.length });
+      return thread.id;
+    } catch (error) {
+      console.error('[Pipeline] 载入对话串失败:', error);
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      await emit('error', { message: '载入对话串失败', error: errorMessage });
+      return null;
+    }
+  }
+
+  private async threadHistory(id: string): Promise<string> {
+    const thread = await this.threads.get(id);
+    return thread ? formatThreadHistory(thread) : '';
+  }
+
+  // 保存本轮问答；超出保留轮数的旧轮次并入滚动摘要
+  private async recordTurn(
+    id: string,
+    question: string,
+    answer: string,
+    sources: Source[],
+    facts: Fact[],
+    emit: Emit
+  ): Promise<void> {
+    try {
+      await this.threads.appendTurn(id, { question, answer, sources, facts });
+      const thread = await this.threads.get(id);
+      if (!thread) return;
+
+      const covered = thread.summarizedTurns ?? 0;
+      const cutoff = thread.turns.length - CFG.THREAD_RECENT_TURNS;
+      if (cutoff > covered) {
+        const summary = await this.historySummarizerAgent.summarize(thread.summary ?? '', thread.turns.slice(covered, cutoff));
+        await this.threads.setSummary(id, summary, cutoff);
+        console.log(`[Pipeline] 对话摘要已更新，涵盖前 ${cutoff} 轮`);
+      }
+      await emit('thread', { id, title: thread.title, turnCount: thread.turns.length });
+    } catch (error) {
+      console.error('[Pipeline] 保存对话失败:', error);
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      await emit('error', { message: '保存对话失败', error: errorMessage });
+    }
+  }
+
+  // 检索与问题相关的记忆，返回给 Router / Writer 的摘要
+  private async recallMemory(scope: string, question: string, emit: Emit): Promise<string> {
+    try {
+      const memories = await this.memory.search(scope, question, CFG.MEMORY_TOP_K);
+      console.log('[Pipeline] 检索到', memories.length, '条相关记忆');
+      await emit('memory', { scope, entries: memories });
+      return formatMemoryBrief(memories);
+    } catch (error) {
+      console.error('[Pipeline] 记忆检索失败:', error);
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      await emit('error', { message: '记忆检索失败', error: errorMessage });
+      return '';
     }
   }
 
-  // 执行网络搜索
-  private async performWebSearch(question: string, plan: RouterPlan, settings: Settings): Promise<Source[]> {
-    const queries = this.webSearch.expandQueries(question);
+  // 抽取本轮问答中值得长期保存的信息并写入记忆
+  private async rememberExchange(scope: string, question: string, response: string, emit: Emit): Promise<void> {
+    try {
+      await emit('status', { stage: 'memory', message: '正在保存记忆...' });
+      const { facts, entities, keywords } = await this.memorizerAgent.extract(question, response);
+      const stored = [
+        await this.memory.add(scope, { role: 'user', text: question }, question),
+        await this.memory.add(
+          scope,
+          { role: 'assistant', text: response.slice(0, 4000), facts, entities, keywords },
+          [question, ...facts, ...entities].join('\n')
+        ),
+      ];
+      console.log('[Pipeline] 记忆已保存:', stored.map(e => e.id));
+      await emit('memoryStored', { scope, entries: stored });
+    } catch (error) {
+      console.error('[Pipeline] 记忆保存失败:', error);
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      await emit('error', { message: '记忆保存失败', error: errorMessage });
+    }
+  }
+
+  // 执行网络搜索（expand 为 false 时只查原始问题；signal 中止后返回已取得的结果）
+  private async performWebSearch(
+    question: string,
+    plan: RouterPlan,
+    settings: Settings,
+    limits: { maxSources: number; expand: boolean } = { maxSources: this.config.maxSources, expand: true },
+    signal?: AbortSignal
+  ): Promise<Source[]> {
+    const queries = limits.expand ? this.webSearch.expandQueries(question) : [question];
     const allSources: Source[] = [];
     
     for (const query of queries) {
+      if (signal?.aborted) break;
       try {
         const sources = await this.webSearch.search(query, {
           search_depth: plan.topic === 'news' ? 'advanced' : 'basic',
-          max_results: CFG.SEARCH_MAX_RESULTS
-        });
+          max_results: CFG.SEARCH_MAX_RESULTS,
+          topic: plan.topic,
+          days: CFG.NEWS_DAYS
+        }, signal);
         
         // 去重
         for (const source of sources) {
@@ -215,7 +781,7 @@ export class ResearchPipeline {
       }
     }
     
-    return filteredSources.slice(0, CFG.SEARCH_MAX_RESULTS);
+    return filteredSources.slice(0, limits.maxSources);
   }
 
   // 执行可信度评估
@@ -223,7 +789,10 @@ export class ResearchPipeline {
     facts: Fact[], 
     sources: Source[], 
     response: string, 
-    emit: Emit
+    question: string, 
+    settings: Settings, 
+    emit: Emit,
+    dataQualityReport?: DataQualityReport
   ): Promise<void> {
     try {
       // 提取声明进行验证
@@ -237,9 +806,26 @@ export class ResearchPipeline {
       await emit('crossValidation', crossValidationResults);
       console.log('[Pipeline] crossValidation事件已发送');
       
+      // 假设检验（失败时不影响后续评估）
+      let hypothesisReport: HypothesisReport | undefined;
+      try {
+        hypothesisReport = await this.hypothesisAgent.test(crossValidationResults, question, settings.lang);
+        console.log('[Pipeline] 假设检验完成:', hypothesisReport.overallConclusion);
+        await emit('hypotheses', hypothesisReport);
+      } catch (error) {
+        console.error('[Pipeline] 假设检验失败:', error);
+        const errorMessage = error instanceof Error ? error.message : '未知错误';
+        await emit('error', { message: '假设检验失败', error: errorMessage });
+      }
+      
       // 评估不确定性
       console.log('[Pipeline] 评估不确定性...');
-      const uncertaintyAssessment = this.credibilityEvaluator.assessUncertainty(claims, sources);
+      const uncertaintyAssessment = this.credibilityEvaluator.assessUncertainty(
+        claims, 
+        sources, 
+        crossValidationResults, 
+        hypothesisReport
+      );
       console.log('[Pipeline] 不确定性评估完成，发送uncertainty事件');
       await emit('uncertainty', uncertaintyAssessment);
       console.log('[Pipeline] uncertainty事件已发送');
@@ -249,7 +835,8 @@ export class ResearchPipeline {
       const credibilityScore = this.credibilityEvaluator.calculateCredibilityScore(
         sources, 
         claims, 
-        crossValidationResults
+        crossValidationResults,
+        dataQualityReport
       );
       console.log('[Pipeline] 可信度分数计算完成，发送credibility事件');
       await emit('credibility', credibilityScore);
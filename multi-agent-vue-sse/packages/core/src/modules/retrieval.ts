@@ -0,0 +1,167 @@
+import { FetchedPage, Source, SourcePassage } from '../types.js';
+import { CFG } from './config.js';
+import { isLLMAvailable } from './llm-providers.js';
+import { EmbeddingScorer, SupportScorer } from './similarity.js';
+import { smartTruncate, tokenize } from './utils.js';
+
+export type RetrievalScorer = 'bm25' | 'embedding' | 'hybrid';
+
+export interface PassageSearchOptions {
+  limit: number;       // 最多返回几段
+  perSource: number;   // 每个来源最多几段
+  scorer?: RetrievalScorer;
+}
+
+// BM25 参数
+const K1 = 1.2;
+const B = 0.75;
+// 子问题的分数权重（原问题为 1）
+const SUB_QUESTION_WEIGHT = 0.8;
+
+// auto：embedding 角色可用时混合词汇与向量分数，否则只用 BM25
+export function resolveRetrievalScorer(name: string = CFG.RETRIEVAL_SCORER): RetrievalScorer {
+  if (name === 'auto') return isLLMAvailable('embedding') ? 'hybrid' : 'bm25';
+  if (name === 'bm25' || name === 'embedding' || name === 'hybrid') return name;
+  throw new Error(`Unknown retrieval scorer "${name}", available: auto, bm25, embedding, hybrid`);
+}
+
+// 正文切成不超过 maxChars 的段落：按句子装箱，上一段的最后一句（较短时）重叠到下一段
+export function chunkText(content: string, maxChars: number): string[] {
+  const units = content
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?])\s+|(?<=[。！？])/))
+    .map(s => s.trim())
+    .filter(Boolean)
+    .flatMap(s => (s.length <= maxChars ? [s] : s.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g'))!));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  for (const unit of units) {
+    if (current.length > 0 && length + 1 + unit.length > maxChars) {
+      chunks.push(current.join(' '));
+      const last = current[current.length - 1];
+      current = last.length <= maxChars / 3 && last.length + 1 + unit.length <= maxChars ? [last] : [];
+      length = current.length > 0 ? last.length : 0;
+    }
+    length += (current.length > 0 ? 1 : 0) + unit.length;
+    current.push(unit);
+  }
+  if (current.length > 0) chunks.push(current.join(' '));
+  return chunks;
+}
+
+// 段落索引：BM25 词汇检索，可选混合向量相似度
+export class PassageIndex {
+  readonly passages: SourcePassage[];
+  private termFreqs: Map<string, number>[];
+  private lengths: number[];
+  private avgLength: number;
+  private docFreq = new Map<string, number>();
+  private byId: Map<string, SourcePassage>;
+  private embedder: SupportScorer | null = null;
+
+  constructor(passages: SourcePassage[]) {
+    this.passages = passages;
+    this.byId = new Map(passages.map(p => [p.id, p]));
+    const tokenized = passages.map(p => tokenize(`${p.title ?? ''} ${p.text}`));
+    this.lengths = tokenized.map(t => t.length);
+    this.avgLength = this.lengths.reduce((a, b) => a + b, 0) / Math.max(1, passages.length) || 1;
+    this.termFreqs = tokenized.map(tokens => {
+      const tf = new Map<string, number>();
+      for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+      for (const t of tf.keys()) this.docFreq.set(t, (this.docFreq.get(t) ?? 0) + 1);
+      return tf;
+    });
+  }
+
+  // 有全文的来源切段，其余来源以搜索摘要为一段；段落 ID 为 S<来源序号>-<段落序号>
+  static fromSources(sources: Source[], pages: FetchedPage[], maxChars: number): PassageIndex {
+    const pageByUrl = new Map(pages.map(p => [p.url, p]));
+    const passages: SourcePassage[] = [];
+    sources.forEach((source, i) => {
+      const page = pageByUrl.get(source.url);
+      const texts = page
+        ? chunkText(page.content, maxChars)
+        : source.snippet?.trim() ? [smartTruncate(source.snippet.trim(), maxChars)] : [];
+      texts.forEach((text, k) => passages.push({
+        id: `S${i + 1}-${k + 1}`,
+        url: source.url,
+        title: page?.title || source.title,
+        published: page?.published || source.published,
+        text,
+        origin: page ? 'page' : 'snippet',
+        score: 0,
+      }));
+    });
+    return new PassageIndex(passages);
+  }
+
+  get size(): number {
+    return this.passages.length;
+  }
+
+  get(id: string): SourcePassage | undefined {
+    return this.byId.get(id);
+  }
+
+  // 每段的 BM25 分数，以本次查询的最高分归一化到 0-1
+  bm25(query: string): number[] {
+    const terms = [...new Set(tokenize(query))];
+    const n = this.passages.length;
+    const raw = this.termFreqs.map((tf, i) => {
+      let score = 0;
+      for (const term of terms) {
+        const f = tf.get(term);
+        if (!f) continue;
+        const df = this.docFreq.get(term)!;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (f * (K1 + 1)) / (f + K1 * (1 - B + B * this.lengths[i] / this.avgLength));
+      }
+      return score;
+    });
+    const max = Math.max(0, ...raw);
+    return raw.map(s => (max > 0 ? s / max : 0));
+  }
+
+  // 以问题与子问题检索：每段取各查询中的最高分，依分数取前 limit 段（每个来源最多 perSource 段）
+  async search(queries: string[], options: PassageSearchOptions): Promise<SourcePassage[]> {
+    const list = [...new Set(queries.map(q => q.trim()).filter(Boolean))];
+    if (this.size === 0 || list.length === 0) return [];
+    const scorer = options.scorer ?? resolveRetrievalScorer();
+    const docs = this.passages.map(p => p.text);
+
+    const scores = new Array<number>(this.size).fill(0);
+    for (let q = 0; q < list.length; q++) {
+      const weight = q === 0 ? 1 : SUB_QUESTION_WEIGHT;
+      const lexical = scorer === 'embedding' ? null : this.bm25(list[q]);
+      const semantic = scorer === 'bm25' ? null : (await this.embeddings().score(list[q], docs)).scores;
+      for (let i = 0; i < this.size; i++) {
+        const score = lexical && semantic
+          ? (lexical[i] + semantic[i]) / 2
+          : (lexical ?? semantic!)[i];
+        scores[i] = Math.max(scores[i], score * weight);
+      }
+    }
+
+    const ranked = this.passages
+      .map((p, i) => ({ ...p, score: Math.round(scores[i] * 1000) / 1000 }))
+      .filter(p => p.score > 0)
+      .sort((a, b) => b.score - a.score);
+    const perSource = new Map<string, number>();
+    const selected: SourcePassage[] = [];
+    for (const passage of ranked) {
+      const count = perSource.get(passage.url) ?? 0;
+      if (count >= options.perSource) continue;
+      perSource.set(passage.url, count + 1);
+      selected.push(passage);
+      if (selected.length >= options.limit) break;
+    }
+    return selected;
+  }
+
+  // 向量评分器（缓存段落向量，多个查询只嵌入一次）
+  private embeddings(): SupportScorer {
+    return this.embedder ??= new EmbeddingScorer();
+  }
+}
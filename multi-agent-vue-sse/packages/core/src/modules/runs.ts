@@ -0,0 +1,240 @@
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { Emit, RunEvent, RunRecord, RunStatus, RunSummary, Settings, TokenUsage } from '../types.js';
+import { CFG } from './config.js';
+
+// 运行 ID 同时用作文件名，规则与对话串相同
+const RUN_ID_RE = /^[\w.-]{1,64}$/;
+
+export function isValidRunId(id: unknown): id is string {
+  return typeof id === 'string' && RUN_ID_RE.test(id);
+}
+
+// SSE id 格式为 `${runId}:${seq}`，重连时由 Last-Event-ID 解析回来
+export function formatRunEventId(runId: string, seq: number): string {
+  return `${runId}:${seq}`;
+}
+
+export function parseRunEventId(value: unknown): { runId: string; seq: number } | null {
+  if (typeof value !== 'string') return null;
+  const idx = value.lastIndexOf(':');
+  const runId = value.slice(0, idx);
+  const seq = Number(value.slice(idx + 1));
+  if (idx <= 0 || !isValidRunId(runId) || !Number.isInteger(seq) || seq < 0) return null;
+  return { runId, seq };
+}
+
+// 运行结束后的状态：每种事件取最后一次，可能多次出现的事件收集为数组；writer 增量与 status 不计入
+const LIST_EVENTS = new Set(['draft', 'critique', 'consensus', 'error']);
+const SKIP_EVENTS = new Set(['writer', 'status', 'done']);
+
+export function runState(events: RunEvent[]): Record<string, unknown> {
+  const state: Record<string, any> = {};
+  for (const { event, data } of events) {
+    if (SKIP_EVENTS.has(event)) continue;
+    if (LIST_EVENTS.has(event)) (state[event] ??= []).push(data);
+    else state[event] = data;
+  }
+  return state;
+}
+
+// token 用量取最后一次 tokens 事件；取消的运行改用 cancelled 状态附带的已用量
+function lastTokens(events: RunEvent[]): TokenUsage | undefined {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const { event, data } = events[i];
+    if (event === 'tokens') return data;
+    if (event === 'status' && data?.stage === 'cancelled' && data.tokenUsage) return data.tokenUsage;
+  }
+  return undefined;
+}
+
+function toSummary(r: RunRecord): RunSummary {
+  const tokens = lastTokens(r.events);
+  return {
+    id: r.id, question: r.question, status: r.status, createdAt: r.createdAt, updatedAt: r.updatedAt,
+    durationMs: (r.status === 'running' ? Date.now() : r.updatedAt) - r.createdAt,
+    eventCount: r.events.length,
+    ...(tokens ? { tokens } : {}),
+    ...(r.threadId ? { threadId: r.threadId } : {}),
+  };
+}
+
+export type RunListener = (event: RunEvent) => void;
+
+export interface RunSubscription {
+  replay: RunEvent[];     // afterId 之后已发生的事件
+  status: RunStatus;      // 非 running 时不会再有新事件
+  unsubscribe(): void;
+}
+
+interface LiveRun {
+  record: RunRecord;
+  controller: AbortController;
+  listeners: Set<RunListener>;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// 运行记录：进行中的运行保存在内存并可订阅，结束后写入一个 JSON 文件
+export class RunStore {
+  private dir: string;
+  private graceMs: number;
+  private live = new Map<string, LiveRun>();
+  // 已结束运行的摘要索引（首次列出时从目录载入）
+  private finished: Map<string, RunSummary> | null = null;
+
+  constructor(dir: string = CFG.RUNS_DIR, graceMs: number = CFG.RUN_RESUME_GRACE_MS) {
+    this.dir = path.resolve(dir);
+    this.graceMs = graceMs;
+  }
+
+  // 建立运行；emit 交给 runPipeline，signal 在客户端断线超过宽限期时中止
+  start(question: string, settings: Settings, id: string = randomUUID()): { id: string; emit: Emit; signal: AbortSignal } {
+    if (!isValidRunId(id)) throw new Error(`Invalid run id "${id}"`);
+    if (this.live.has(id)) throw new Error(`Run "${id}" already exists`);
+    const now = Date.now();
+    const run: LiveRun = {
+      record: {
+        id, question, status: 'running', createdAt: now, updatedAt: now, settings, events: [],
+        ...(settings.threadId ? { threadId: settings.threadId } : {}),
+      },
+      controller: new AbortController(),
+      listeners: new Set(),
+      graceTimer: null,
+    };
+    this.live.set(id, run);
+    console.log(`[Runs] 开始运行 ${id}`);
+    return { id, emit: (event, data) => { this.append(id, event, data); }, signal: run.controller.signal };
+  }
+
+  // 记录事件并推送给当前订阅者
+  append(id: string, event: string, data: any): RunEvent | null {
+    const run = this.live.get(id);
+    if (!run) return null;
+    const entry: RunEvent = { id: run.record.events.length + 1, event, data, ts: Date.now() };
+    run.record.events.push(entry);
+    run.record.updatedAt = entry.ts;
+    for (const listener of run.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.warn(`[Runs] 推送事件失败:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return entry;
+  }
+
+  // 订阅：先取回 afterId 之后的事件，进行中的运行再持续推送；已结束的运行只补送
+  async subscribe(id: string, afterId: number, listener: RunListener): Promise<RunSubscription | null> {
+    const run = this.live.get(id);
+    if (!run) {
+      const record = await this.get(id);
+      if (!record) return null;
+      return { replay: record.events.filter(e => e.id > afterId), status: record.status, unsubscribe: () => {} };
+    }
+
+    if (run.graceTimer) {
+      clearTimeout(run.graceTimer);
+      run.graceTimer = null;
+      console.log(`[Runs] 运行 ${id} 已重新连线`);
+    }
+    run.listeners.add(listener);
+    return {
+      replay: run.record.events.filter(e => e.id > afterId),
+      status: run.record.status,
+      unsubscribe: () => {
+        if (!run.listeners.delete(listener) || run.listeners.size > 0 || run.record.status !== 'running') return;
+        // 最后一个订阅者离开：宽限期内无人重连则取消
+        run.graceTimer = setTimeout(() => {
+          run.graceTimer = null;
+          if (run.listeners.size === 0 && run.record.status === 'running') {
+            console.log(`[Runs] 运行 ${id} 无人重连，取消`);
+            run.controller.abort();
+          }
+        }, this.graceMs);
+      },
+    };
+  }
+
+  // 流程结束后调用：判定最终状态并写入文件
+  async finish(id: string): Promise<RunSummary | null> {
+    const run = this.live.get(id);
+    if (!run) return null;
+    if (run.graceTimer) clearTimeout(run.graceTimer);
+    const completed = run.record.events.some(e => e.event === 'status' && e.data?.stage === 'complete');
+    run.record.status = run.controller.signal.aborted ? 'cancelled' : completed ? 'completed' : 'failed';
+    run.record.updatedAt = Date.now();
+    try {
+      await this.persist(run.record);
+    } catch (error) {
+      console.warn(`[Runs] 保存运行 ${id} 失败:`, error instanceof Error ? error.message : error);
+    }
+    const summary = toSummary(run.record);
+    this.finished?.set(id, summary);
+    this.live.delete(id);
+    console.log(`[Runs] 运行 ${id} 结束: ${run.record.status}`);
+    return summary;
+  }
+
+  // 进行中与最近结束的运行（新到旧）
+  async list(limit = 50): Promise<RunSummary[]> {
+    const finished = await this.loadFinished();
+    const live = [...this.live.values()].map(r => toSummary(r.record));
+    const all = [...live, ...[...finished.values()].filter(r => !this.live.has(r.id))];
+    return all.sort((a, b) => b.createdAt - a.createdAt).slice(0, limit);
+  }
+
+  async get(id: string): Promise<RunRecord | null> {
+    if (!isValidRunId(id)) return null;
+    const run = this.live.get(id);
+    if (run) return run.record;
+    try {
+      const record = JSON.parse(await fsp.readFile(this.fileOf(id), 'utf8')) as RunRecord;
+      return record?.id === id && Array.isArray(record.events) ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async loadFinished(): Promise<Map<string, RunSummary>> {
+    if (this.finished) return this.finished;
+    const finished = new Map<string, RunSummary>();
+    const files = await fsp.readdir(this.dir).catch(() => [] as string[]);
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const record = JSON.parse(await fsp.readFile(path.join(this.dir, file), 'utf8')) as RunRecord;
+        if (isValidRunId(record?.id) && Array.isArray(record.events)) finished.set(record.id, toSummary(record));
+      } catch (error) {
+        console.warn(`[Runs] 跳过无法解析的运行文件 ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    this.finished = finished;
+    return finished;
+  }
+
+  // 先写临时文件再替换，避免中途失败留下半个文件
+  private async persist(record: RunRecord): Promise<void> {
+    await fsp.mkdir(this.dir, { recursive: true });
+    const file = this.fileOf(record.id);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(record), 'utf8');
+    await fsp.rename(tmp, file);
+  }
+
+  private fileOf(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+// 同一目录共享一个实例（SSE 连线与 /api/runs 共用进行中的运行）
+const stores = new Map<string, RunStore>();
+
+export function getRunStore(dir: string = CFG.RUNS_DIR): RunStore {
+  const key = path.resolve(dir);
+  let store = stores.get(key);
+  if (!store) {
+    store = new RunStore(key);
+    stores.set(key, store);
+  }
+  return store;
+}
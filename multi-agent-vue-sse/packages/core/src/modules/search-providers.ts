@@ -0,0 +1,273 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { Source, SearchParams, SearchProvider } from '../types.js';
+import { CFG } from './config.js';
+import { tokenize } from './utils.js';
+
+// 以詞彙重疊估算相關度（供本地提供者排序）
+function lexicalScore(queryTokens: string[], text: string): number {
+  if (queryTokens.length === 0) return 0;
+  const textTokens = new Set(tokenize(text));
+  let hits = 0;
+  for (const t of queryTokens) {
+    if (textTokens.has(t)) hits++;
+  }
+  return hits / queryTokens.length;
+}
+
+// Tavily 搜索
+export class TavilyProvider implements SearchProvider {
+  readonly name = 'tavily';
+
+  // 獲取 Tavily API 密鑰
+  private getTavilyKey(): string {
+    return process.env.TAVILY_API_KEY || '';
+  }
+
+  async search(query: string, params: SearchParams = {}, signal?: AbortSignal): Promise<Source[]> {
+    console.log(`[Tavily] 開始搜索: "${query}"`);
+    console.log(`[Tavily] TAVILY_KEY 狀態: ${this.getTavilyKey() ? '已配置' : '未配置'}`);
+
+    if (!this.getTavilyKey()) {
+      console.warn('[Tavily] 缺少 TAVILY_API_KEY，跳過網絡搜索');
+      return [];
+    }
+
+    const body: Record<string, unknown> = {
+      api_key: this.getTavilyKey(),
+      query,
+      include_answer: false,
+      search_depth: params.search_depth ?? 'basic',
+      max_results: params.max_results ?? 5
+    };
+    if (params.topic) body.topic = params.topic;
+    if (params.topic === 'news' && params.days) body.days = params.days;
+    console.log(`[Tavily] 搜索參數:`, { query, search_depth: body.search_depth, max_results: body.max_results });
+
+    try {
+      const res = await fetch('https://api.tavily.com/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+      });
+      console.log(`[Tavily] 響應狀態: ${res.status} ${res.statusText}`);
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        console.error(`[Tavily] API 錯誤: ${res.status} - ${errorText}`);
+        return [];
+      }
+
+      const json = await res.json();
+      const items = (json?.results || []) as Array<{ title?: string; url: string; content?: string; published?: string; published_date?: string }>;
+      return items.map(r => ({
+        title: r.title || '',
+        url: r.url,
+        snippet: r.content || '',
+        published: r.published || r.published_date
+      }));
+    } catch (e) {
+      console.error('[Tavily] 搜索失敗:', e);
+      return [];
+    }
+  }
+}
+
+// SearxNG 相容的 JSON 端點
+export class SearxngProvider implements SearchProvider {
+  readonly name = 'searxng';
+  private baseUrl: string;
+
+  constructor(baseUrl: string = CFG.SEARXNG_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async search(query: string, params: SearchParams = {}, signal?: AbortSignal): Promise<Source[]> {
+    const url = new URL(`${this.baseUrl}/search`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('categories', params.topic === 'news' ? 'news' : 'general');
+    if (params.topic === 'news' && params.days) {
+      url.searchParams.set('time_range', params.days <= 1 ? 'day' : params.days <= 7 ? 'week' : params.days <= 31 ? 'month' : 'year');
+    }
+    console.log(`[SearxNG] 開始搜索: "${query}" -> ${url.origin}`);
+
+    try {
+      const res = await fetch(url, { headers: { Accept: 'application/json' }, signal });
+      if (!res.ok) {
+        console.error(`[SearxNG] API 錯誤: ${res.status} ${res.statusText}`);
+        return [];
+      }
+      const json = await res.json();
+      const items = (json?.results || []) as Array<{ title?: string; url: string; content?: string; publishedDate?: string | null }>;
+      return items.slice(0, params.max_results ?? 5).map(r => ({
+        title: r.title || '',
+        url: r.url,
+        snippet: r.content || '',
+        published: r.publishedDate || undefined
+      }));
+    } catch (e) {
+      console.error('[SearxNG] 搜索失敗:', e);
+      return [];
+    }
+  }
+}
+
+// 靜態測試資料（離線 / CI 使用）
+// 檔案格式：{ "queries": { "<query>": Source[] }, "sources": Source[] } 或直接為 Source[]
+export class FixtureProvider implements SearchProvider {
+  readonly name = 'fixture';
+  private filePath: string;
+  private data: { queries: Record<string, Source[]>; sources: Source[] } | null = null;
+
+  constructor(filePath: string = CFG.SEARCH_FIXTURE_PATH) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  private load() {
+    if (this.data) return this.data;
+    let raw: any = null;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (e) {
+      console.warn(`[Fixture] 無法讀取 ${this.filePath}:`, e instanceof Error ? e.message : e);
+    }
+    if (Array.isArray(raw)) {
+      this.data = { queries: {}, sources: raw };
+    } else {
+      this.data = { queries: raw?.queries ?? {}, sources: raw?.sources ?? [] };
+    }
+    return this.data;
+  }
+
+  async search(query: string, params: SearchParams = {}): Promise<Source[]> {
+    const data = this.load();
+    const limit = params.max_results ?? 5;
+    const exact = data.queries[query] ?? data.queries[query.trim().toLowerCase()];
+    if (exact) return exact.slice(0, limit);
+
+    // 沒有完全符合的查詢時，以詞彙重疊排序全部固定來源
+    const pool = [...data.sources, ...Object.values(data.queries).flat()];
+    const queryTokens = tokenize(query);
+    return pool
+      .map(s => ({ s, score: lexicalScore(queryTokens, `${s.title || ''} ${s.snippet || ''}`) }))
+      .filter(x => x.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(x => x.s);
+  }
+}
+
+// 本地文件語料庫：讀取目錄下的 .txt / .md / .json / .html 檔案
+export class CorpusProvider implements SearchProvider {
+  readonly name = 'corpus';
+  private dir: string;
+  private docs: Array<{ title: string; url: string; text: string; published: string; paragraphs: string[] }> | null = null;
+
+  private static readonly EXTENSIONS = new Set(['.txt', '.md', '.markdown', '.json', '.html', '.htm']);
+
+  constructor(dir: string = CFG.SEARCH_CORPUS_DIR) {
+    this.dir = path.resolve(dir);
+  }
+
+  private async walk(dir: string): Promise<string[]> {
+    const entries = await fsp.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) files.push(...await this.walk(full));
+      else if (CorpusProvider.EXTENSIONS.has(path.extname(entry.name).toLowerCase())) files.push(full);
+    }
+    return files;
+  }
+
+  private async load() {
+    if (this.docs) return this.docs;
+    const files = await this.walk(this.dir);
+    if (files.length === 0) console.warn(`[Corpus] 目錄 ${this.dir} 沒有可用文件`);
+
+    const docs = [];
+    for (const file of files) {
+      try {
+        const [raw, stat] = await Promise.all([fsp.readFile(file, 'utf8'), fsp.stat(file)]);
+        const ext = path.extname(file).toLowerCase();
+        let text = raw;
+        let title = '';
+        if (ext === '.json') {
+          const obj = JSON.parse(raw);
+          title = obj.title || '';
+          text = obj.content || obj.text || obj.snippet || '';
+        } else if (ext === '.html' || ext === '.htm') {
+          title = raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim() || '';
+          text = raw.replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ');
+        } else {
+          title = raw.match(/^#\s+(.+)$/m)?.[1]?.trim() || '';
+        }
+        const paragraphs = text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+        docs.push({
+          title: title || path.basename(file),
+          url: pathToFileURL(file).href,
+          text: paragraphs.join('\n'),
+          published: stat.mtime.toISOString(),
+          paragraphs
+        });
+      } catch (e) {
+        console.warn(`[Corpus] 跳過無法解析的文件 ${file}:`, e instanceof Error ? e.message : e);
+      }
+    }
+    this.docs = docs;
+    return docs;
+  }
+
+  async search(query: string, params: SearchParams = {}): Promise<Source[]> {
+    const docs = await this.load();
+    const queryTokens = tokenize(query);
+    const scored = docs
+      .map(doc => {
+        // 以最相關段落作為摘要
+        let best = doc.paragraphs[0] || '';
+        let bestScore = -1;
+        for (const p of doc.paragraphs) {
+          const score = lexicalScore(queryTokens, p);
+          if (score > bestScore) { best = p; bestScore = score; }
+        }
+        return { doc, snippet: best, score: lexicalScore(queryTokens, `${doc.title}\n${doc.text}`) };
+      })
+      .filter(x => x.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    return scored.slice(0, params.max_results ?? 5).map(x => ({
+      title: x.doc.title,
+      url: x.doc.url,
+      snippet: x.snippet.slice(0, 500),
+      published: x.doc.published
+    }));
+  }
+}
+
+// 提供者註冊表
+const PROVIDERS = new Map<string, () => SearchProvider>([
+  ['tavily', () => new TavilyProvider()],
+  ['searxng', () => new SearxngProvider()],
+  ['fixture', () => new FixtureProvider()],
+  ['corpus', () => new CorpusProvider()],
+]);
+
+export function registerSearchProvider(name: string, factory: () => SearchProvider): void {
+  PROVIDERS.set(name, factory);
+}
+
+export function listSearchProviders(): string[] {
+  return [...PROVIDERS.keys()];
+}
+
+export function createSearchProvider(name: string = CFG.SEARCH_PROVIDER): SearchProvider {
+  const factory = PROVIDERS.get(name);
+  if (!factory) {
+    throw new Error(`Unknown search provider "${name}", available: ${listSearchProviders().join(', ')}`);
+  }
+  return factory();
+}
@@ -1,78 +1,56 @@
-import { Source } from '../types.js';
+import { Source, SearchParams, SearchProvider } from '../types.js';
+import { CFG } from './config.js';
+import { createSearchProvider } from './search-providers.js';
+import { Cassette, activeCassette } from './cassette.js';
 
-// 網絡搜索功能
+// 網絡搜索功能（實際查詢交給可替換的 SearchProvider）
 export class WebSearch {
-  private tavilyKey: string;
+  private base: SearchProvider;
+  private provider: SearchProvider;
+  private cassette: Cassette | null = activeCassette();
 
-  constructor() {
-    this.tavilyKey = process.env.TAVILY_API_KEY || '';
+  constructor(providerName: string = CFG.SEARCH_PROVIDER) {
+    this.base = createSearchProvider(providerName);
+    this.provider = this.wrap(this.base);
   }
 
-  // 獲取 Tavily API 密鑰
-  private getTavilyKey(): string {
-    return process.env.TAVILY_API_KEY || '';
+  // 切換搜索提供者
+  setProvider(provider: string | SearchProvider): void {
+    this.base = typeof provider === 'string' ? createSearchProvider(provider) : provider;
+    this.provider = this.wrap(this.base);
   }
 
-  // Tavily 搜索
-  async search(query: string, params: { search_depth?: 'basic'|'advanced'; max_results?: number } = {}, signal?: AbortSignal): Promise<Source[]> {
-    console.log(`[Tavily] 開始搜索: "${query}"`);
-    console.log(`[Tavily] TAVILY_KEY 狀態: ${this.getTavilyKey() ? '已配置' : '未配置'}`);
-    console.log(`[Tavily] TAVILY_KEY 長度: ${this.getTavilyKey()?.length || 0}`);
-    
-    if (!this.getTavilyKey()) {
-      console.warn('[Tavily] 缺少 TAVILY_API_KEY，跳過網絡搜索');
-      return [];
-    }
-    
-    const body = { 
-      api_key: this.getTavilyKey(), 
-      query, 
-      include_answer: false, 
-      search_depth: params.search_depth ?? 'basic', 
-      max_results: params.max_results ?? 5 
-    };
-    console.log(`[Tavily] 搜索參數:`, { query, search_depth: body.search_depth, max_results: body.max_results });
-    
+  // 改用指定的錄製檔（之後切換的提供者也會經過它）
+  setCassette(cassette: Cassette): void {
+    this.cassette = cassette;
+    this.provider = this.wrap(this.base);
+  }
+
+  private wrap(provider: SearchProvider): SearchProvider {
+    return this.cassette ? this.cassette.wrapSearch(provider) : provider;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  // 搜索並按 URL 去重
+  async search(query: string, params: SearchParams = {}, signal?: AbortSignal): Promise<Source[]> {
+    console.log(`[Search] 使用 ${this.provider.name} 搜索: "${query}"`);
     try {
-      console.log(`[Tavily] 發送請求到: https://api.tavily.com/search`);
-      const res = await fetch('https://api.tavily.com/search', { 
-        method: 'POST', 
-        headers: { 'Content-Type': 'application/json' }, 
-        body: JSON.stringify(body), 
-        signal 
-      });
-      console.log(`[Tavily] 響應狀態: ${res.status} ${res.statusText}`);
-      
-      if (!res.ok) {
-        const errorText = await res.text();
-        console.error(`[Tavily] API 錯誤: ${res.status} - ${errorText}`);
-        return [];
-      }
-      
-      const json = await res.json();
-      console.log(`[Tavily] 響應數據:`, { results: json?.results?.length || 0, total: json?.total || 0 });
-      
-      const items = (json?.results || []) as Array<{title?:string; url:string; content?:string; published?:string}>;
-      // de-dup by URL
+      const items = await this.provider.search(query, params, signal);
       const seen = new Set<string>();
       const out: Source[] = [];
-      for (const r of items){ 
-        if (!seen.has(r.url)){ 
-          seen.add(r.url); 
-          out.push({ 
-            title: r.title || '', 
-            url: r.url, 
-            snippet: r.content || '', 
-            published: r.published 
-          }); 
-        } 
+      for (const r of items) {
+        if (!r.url || seen.has(r.url)) continue;
+        seen.add(r.url);
+        out.push(r);
       }
-      
-      console.log(`[Tavily] 搜索結果: ${out.length} 個來源`);
+      console.log(`[Search] 搜索結果: ${out.length} 個來源`);
       return out;
-    } catch (e){ 
-      console.error('[Tavily] 搜索失敗:', e); 
-      return []; 
+    } catch (e) {
+      console.error(`[Search] ${this.provider.name} 搜索失敗:`, e);
+      return [];
     }
   }
 
@@ -0,0 +1,183 @@
+import { isLLMAvailable, llmProviderFor } from './llm-providers.js';
+import { CFG } from './config.js';
+import { tokenize } from './utils.js';
+
+// 相关度阈值：score >= support 视为高度相关，score < related 视为无关，其余为部分相关
+// 相似度只说明是否谈论同一件事，是否矛盾由 ContradictionDetector 判定
+export interface SupportThresholds {
+  support: number;
+  related: number;
+}
+
+export interface SupportScores {
+  scorer: string;
+  scores: number[];
+  thresholds: SupportThresholds;
+}
+
+// 声明-来源语义相似度评分器
+export interface SupportScorer {
+  readonly name: string;
+  readonly thresholds: SupportThresholds;
+  // 返回 claim 与每个文档的相似度（0-1）及实际采用的阈值
+  score(claim: string, docs: string[]): Promise<SupportScores>;
+}
+
+export interface CalibrationExample {
+  claim: string;
+  doc: string;
+  label: 'support' | 'related' | 'unrelated';
+}
+
+// 常见英文停用词（小语料下 IDF 无法有效压低它们）
+const STOPWORDS = new Set([
+  'the', 'of', 'and', 'to', 'in', 'is', 'are', 'was', 'were', 'be', 'for', 'on', 'that', 'this', 'with',
+  'as', 'by', 'at', 'an', 'it', 'its', 'from', 'or', 'has', 'have', 'had', 'will', 'can', 'not', 'but',
+]);
+
+// 环境变量可覆盖默认阈值（例如以 calibrateThresholds 的结果设置）
+function withConfiguredThresholds(defaults: SupportThresholds): SupportThresholds {
+  return {
+    support: Number.isFinite(CFG.SUPPORT_THRESHOLD) ? CFG.SUPPORT_THRESHOLD : defaults.support,
+    related: Number.isFinite(CFG.RELATED_THRESHOLD) ? CFG.RELATED_THRESHOLD : defaults.related,
+  };
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
+
+// 本地 TF-IDF 余弦相似度（CJK 使用二元组分词）
+export class TfidfScorer implements SupportScorer {
+  readonly name = 'tfidf';
+  readonly thresholds: SupportThresholds;
+
+  constructor(thresholds: SupportThresholds = withConfiguredThresholds({ support: 0.2, related: 0.04 })) {
+    this.thresholds = thresholds;
+  }
+
+  async score(claim: string, docs: string[]): Promise<SupportScores> {
+    const tokenized = [claim, ...docs].map(t => tokenize(t).filter(w => !STOPWORDS.has(w)));
+    const df = new Map<string, number>();
+    for (const tokens of tokenized) {
+      for (const t of new Set(tokens)) df.set(t, (df.get(t) || 0) + 1);
+    }
+    const n = tokenized.length;
+    const vocab = [...df.keys()];
+    // 平滑 IDF，避免只有一两篇文档时权重全为 0
+    const idf = new Map(vocab.map(t => [t, Math.log((n + 1) / (df.get(t)! + 0.5))]));
+
+    const vectorize = (tokens: string[]) => {
+      const tf = new Map<string, number>();
+      for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1);
+      return vocab.map(t => (tf.has(t) ? (1 + Math.log(tf.get(t)!)) * idf.get(t)! : 0));
+    };
+
+    const [claimVec, ...docVecs] = tokenized.map(vectorize);
+    return {
+      scorer: this.name,
+      scores: docVecs.map(v => Math.max(0, Math.min(1, cosine(claimVec, v)))),
+      thresholds: this.thresholds,
+    };
+  }
+}
+
+// 向量嵌入（embedding 角色的 LLM 提供者）余弦相似度；失败时退回本地评分器
+export class EmbeddingScorer implements SupportScorer {
+  readonly name = 'embedding';
+  readonly thresholds: SupportThresholds;
+  private model: string;
+  private fallback: SupportScorer;
+  private cache = new Map<string, number[]>();
+
+  constructor(
+    model: string = CFG.EMBED_MODEL,
+    thresholds: SupportThresholds = withConfiguredThresholds({ support: 0.45, related: 0.2 }),
+    fallback: SupportScorer = new TfidfScorer()
+  ) {
+    this.model = model;
+    this.thresholds = thresholds;
+    this.fallback = fallback;
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const missing = [...new Set(texts.filter(t => !this.cache.has(t)))];
+    if (missing.length > 0) {
+      const vectors = await llmProviderFor('embedding').embed(missing, this.model);
+      vectors.forEach((v, i) => this.cache.set(missing[i], v));
+      // 控制缓存大小
+      while (this.cache.size > 2000) this.cache.delete(this.cache.keys().next().value!);
+    }
+    return texts.map(t => this.cache.get(t)!);
+  }
+
+  async score(claim: string, docs: string[]): Promise<SupportScores> {
+    if (docs.length === 0) return { scorer: this.name, scores: [], thresholds: this.thresholds };
+    try {
+      const inputs = [claim, ...docs].map(t => (t || ' ').slice(0, 8000));
+      const [claimVec, ...docVecs] = await this.embed(inputs);
+      return {
+        scorer: this.name,
+        scores: docVecs.map(v => Math.max(0, cosine(claimVec, v))),
+        thresholds: this.thresholds,
+      };
+    } catch (error) {
+      // 退回本地评分器时一并采用其阈值
+      console.warn(`[Embedding] ${this.model} 调用失败，改用 ${this.fallback.name}:`, error instanceof Error ? error.message : error);
+      return this.fallback.score(claim, docs);
+    }
+  }
+}
+
+// 以标注样本校准阈值：选出使分类正确率最高的 (support, related) 组合
+export async function calibrateThresholds(
+  scorer: SupportScorer,
+  examples: CalibrationExample[]
+): Promise<SupportThresholds & { accuracy: number }> {
+  const scored = await Promise.all(examples.map(async e => ({
+    label: e.label,
+    score: (await scorer.score(e.claim, [e.doc])).scores[0],
+  })));
+  const candidates = [...new Set(scored.map(s => Math.round(s.score * 100) / 100))].sort((a, b) => a - b);
+  candidates.push(1.01);
+
+  let best = { ...scorer.thresholds, accuracy: -1 };
+  for (const related of candidates) {
+    for (const support of candidates) {
+      if (support < related) continue;
+      const correct = scored.filter(s => {
+        const predicted = s.score >= support ? 'support' : s.score < related ? 'unrelated' : 'related';
+        return predicted === s.label;
+      }).length;
+      const accuracy = scored.length ? correct / scored.length : 0;
+      if (accuracy > best.accuracy) best = { support, related, accuracy };
+    }
+  }
+  return best;
+}
+
+// 评分器注册表
+const SCORERS = new Map<string, () => SupportScorer>([
+  ['tfidf', () => new TfidfScorer()],
+  ['embedding', () => new EmbeddingScorer()],
+]);
+
+export function registerSupportScorer(name: string, factory: () => SupportScorer): void {
+  SCORERS.set(name, factory);
+}
+
+// auto：embedding 角色的提供者可用（OpenAI 需有密钥）时用向量嵌入，否则用本地 TF-IDF
+export function createSupportScorer(name: string = CFG.SUPPORT_SCORER): SupportScorer {
+  const resolved = name === 'auto' ? (isLLMAvailable('embedding') ? 'embedding' : 'tfidf') : name;
+  const factory = SCORERS.get(resolved);
+  if (!factory) {
+    throw new Error(`Unknown support scorer "${name}", available: auto, ${[...SCORERS.keys()].join(', ')}`);
+  }
+  return factory();
+}
@@ -0,0 +1,219 @@
+import { Emit, Settings } from '../types.js';
+import { BudgetScheduler, BudgetSlice, MIN_SLICE_RATIO } from './budget.js';
+
+// 单次运行的共享参数。传给 run() 的 signal 为整个运行的取消信号；
+// 传给各阶段的 signal / slice 为该阶段的时间片，取消时也会一并中止
+export interface StageRun {
+  question: string;
+  settings: Settings;
+  emit: Emit;
+  budget?: BudgetScheduler;
+  signal?: AbortSignal;
+  slice?: BudgetSlice;
+}
+
+// 流程阶段：声明读取 (inputs) 与产出 (outputs) 的状态字段，由 StageGraph 按依赖排序执行
+export interface PipelineStage<S extends object> {
+  name: string;
+  inputs: (keyof S)[];
+  outputs: (keyof S)[];
+  message?: string;        // 开始时 status 事件的文案
+  errorMessage: string;    // 失败时 error 事件的 message
+  critical?: boolean;      // 失败时终止后续阶段
+  when?: (state: S, run: StageRun) => boolean;  // 运行时条件，不满足则跳过
+  cost?: number;           // 预估耗时（毫秒），按比例分配时间预算；未设置则不受时间片限制
+  fallback?: (state: S, run: StageRun) => Partial<S> | Promise<Partial<S>>;  // 时间片用完时的降级输出
+  handlesAbort?: boolean;  // 阶段自行响应 signal 并返回部分结果，不与时间片竞速
+  run(state: S, run: StageRun): Promise<Partial<S> | void>;
+}
+
+export interface StageGraphOptions<S extends object> {
+  onStageStart?: (stage: PipelineStage<S>, run: StageRun) => void;
+}
+
+const NO_BUDGET = new BudgetScheduler(null);
+
+export interface StageGraphResult {
+  completed: string[];
+  skipped: string[];
+  failed: string[];
+  aborted: boolean;
+  cancelled: boolean;  // 运行被外部 signal 取消（如客户端断线）
+}
+
+// 阶段图：注册阶段节点，按所选阶段的输入输出关系排序并执行
+export class StageGraph<S extends object> {
+  private stages: PipelineStage<S>[] = [];
+  private options: StageGraphOptions<S>;
+
+  constructor(options: StageGraphOptions<S> = {}) {
+    this.options = options;
+  }
+
+  register(stage: PipelineStage<S>): this {
+    if (this.has(stage.name)) throw new Error(`Stage "${stage.name}" already registered`);
+    this.stages.push(stage);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.stages.some(s => s.name === name);
+  }
+
+  names(): string[] {
+    return this.stages.map(s => s.name);
+  }
+
+  // 解析执行顺序：拓扑排序（无依赖关系时保持注册顺序）；输入既不在初始状态也无上游产出时报错
+  resolve(names: string[], initial: (keyof S)[]): PipelineStage<S>[] {
+    const unknown = names.filter(n => !this.has(n));
+    if (unknown.length) throw new Error(`Unknown stage(s): ${unknown.join(', ')}`);
+
+    const selected = this.stages.filter(s => names.includes(s.name));
+    const producers = new Map<keyof S, PipelineStage<S>[]>();
+    for (const stage of selected) {
+      for (const key of stage.outputs) producers.set(key, [...(producers.get(key) ?? []), stage]);
+    }
+
+    const deps = new Map<PipelineStage<S>, Set<PipelineStage<S>>>();
+    for (const stage of selected) {
+      const upstream = new Set<PipelineStage<S>>();
+      for (const key of stage.inputs) {
+        const from = (producers.get(key) ?? []).filter(p => p !== stage);
+        if (from.length === 0 && !initial.includes(key)) {
+          throw new Error(`Stage "${stage.name}" requires "${String(key)}" but no selected stage produces it`);
+        }
+        from.forEach(p => upstream.add(p));
+      }
+      deps.set(stage, upstream);
+    }
+
+    const ordered: PipelineStage<S>[] = [];
+    const pending = [...selected];
+    while (pending.length) {
+      const idx = pending.findIndex(s => [...deps.get(s)!].every(d => ordered.includes(d)));
+      if (idx < 0) throw new Error(`Stage cycle among: ${pending.map(s => s.name).join(', ')}`);
+      ordered.push(...pending.splice(idx, 1));
+    }
+    return ordered;
+  }
+
+  async run(names: string[], state: S, ctx: StageRun): Promise<StageGraphResult> {
+    const result: StageGraphResult = { completed: [], skipped: [], failed: [], aborted: false, cancelled: false };
+    const order = this.resolve(names, Object.keys(state) as (keyof S)[]);
+    console.log('[StageGraph] 执行顺序:', order.map(s => s.name).join(' → '));
+
+    for (let i = 0; i < order.length; i++) {
+      const stage = order[i];
+      if (ctx.signal?.aborted) {
+        result.cancelled = true;
+        break;
+      }
+      if (stage.when && !stage.when(state, ctx)) {
+        result.skipped.push(stage.name);
+        continue;
+      }
+
+      const slice = this.openSlice(stage, order.slice(i), state, ctx);
+      if (!slice) {
+        result.skipped.push(stage.name);
+        continue;
+      }
+      // 超时后阶段仍可能在后台完成，关闭其事件出口以免在流程结束后继续推送
+      let open = true;
+      const stageCtx: StageRun = {
+        ...ctx,
+        emit: (event, payload) => open ? ctx.emit(event, payload) : undefined,
+        signal: slice.signal,
+        slice,
+      };
+      this.options.onStageStart?.(stage, stageCtx);
+
+      try {
+        if (stage.message) await ctx.emit('status', { stage: stage.name, message: stage.message });
+        const task = stage.run(state, stageCtx);
+        const out = await (stage.handlesAbort ? task : this.raceSlice(task, slice.signal));
+        this.merge(state, stage, out);
+        result.completed.push(stage.name);
+      } catch (error) {
+        if (ctx.signal?.aborted) {
+          open = false;
+          console.log(`[StageGraph] ${stage.name} 阶段已取消`);
+          result.failed.push(stage.name);
+          result.cancelled = true;
+          break;
+        }
+        if (slice.signal.aborted) {
+          open = false;
+          ctx.budget?.cut(stage.name, 'timeout', `超过 ${slice.ms}ms 时间片`);
+          if (stage.fallback) {
+            this.merge(state, stage, await stage.fallback(state, ctx));
+            result.completed.push(stage.name);
+            continue;
+          }
+        } else {
+          console.error(`[StageGraph] ${stage.name} 阶段失败:`, error);
+          const errorMessage = error instanceof Error ? error.message : '未知错误';
+          await ctx.emit('error', { message: stage.errorMessage, error: errorMessage, stage: stage.name });
+        }
+        result.failed.push(stage.name);
+        if (stage.critical) {
+          result.aborted = true;
+          break;
+        }
+      } finally {
+        slice.dispose();
+      }
+    }
+    return result;
+  }
+
+  // 按剩余待执行阶段的成本比例切出时间片；非关键阶段时间不足时返回 null（跳过）
+  private openSlice(stage: PipelineStage<S>, pending: PipelineStage<S>[], state: S, ctx: StageRun): BudgetSlice | null {
+    const budget = ctx.budget;
+    if (!budget?.limited || !stage.cost) return (budget ?? NO_BUDGET).open(stage.name, Number.POSITIVE_INFINITY, 0, ctx.signal);
+
+    const pendingCost = pending
+      .filter(s => s === stage || this.mayRun(s, state, ctx))
+      .reduce((sum, s) => sum + (s.cost ?? 0), 0);
+    let ms = budget.allocate(stage.cost, pendingCost);
+    const minMs = stage.cost * MIN_SLICE_RATIO;
+    if (ms < minMs) {
+      if (!stage.critical) {
+        budget.cut(stage.name, 'skipped', `剩余时间片 ${ms}ms 不足（至少需要 ${Math.round(minMs)}ms）`);
+        return null;
+      }
+      // 关键阶段保底，宁可略超预算也要产出结果
+      ms = Math.round(minMs);
+    }
+    return budget.open(stage.name, ms, stage.cost, ctx.signal);
+  }
+
+  // 预估后续阶段是否执行；上游尚未产出、条件无法判断时按会执行计算
+  private mayRun(stage: PipelineStage<S>, state: S, ctx: StageRun): boolean {
+    try {
+      return !stage.when || stage.when(state, ctx);
+    } catch {
+      return true;
+    }
+  }
+
+  private raceSlice<T>(task: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      task.then(
+        v => { signal.removeEventListener('abort', onAbort); resolve(v); },
+        e => { signal.removeEventListener('abort', onAbort); reject(e); }
+      );
+    });
+  }
+
+  // 只合并声明过的输出，避免阶段之间隐式耦合
+  private merge(state: S, stage: PipelineStage<S>, out: Partial<S> | void): void {
+    for (const key of stage.outputs) {
+      if (out && key in out) state[key] = out[key] as S[keyof S];
+    }
+  }
+}
@@ -0,0 +1,137 @@
+// 确定性统计工具（不依赖模型，结果可重现）
+
+export interface NumericValue {
+  value: number;
+  unit: '%' | '';
+  raw: string;
+}
+
+export interface TestResult {
+  statistic: number;
+  pValue: number;
+  effectSize: number;
+  sampleSize: number;
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+// 样本标准差（n - 1）
+export function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((s, v) => s + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+// Lanczos 近似的 ln Γ(x)
+export function lnGamma(x: number): number {
+  const g = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  x -= 1;
+  let a = 0.99999999999980993;
+  const t = x + 7.5;
+  for (let i = 0; i < g.length; i++) a += g[i] / (x + i + 1);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// 正则化不完全 Beta 函数 I_x(a, b)（连分式展开）
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  if (x > (a + 1) / (a + b + 2)) return 1 - incompleteBeta(1 - x, b, a);
+
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let f = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let num = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + num * d; if (Math.abs(d) < tiny) d = tiny; d = 1 / d;
+    c = 1 + num / c; if (Math.abs(c) < tiny) c = tiny;
+    f *= d * c;
+    num = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + num * d; if (Math.abs(d) < tiny) d = tiny; d = 1 / d;
+    c = 1 + num / c; if (Math.abs(c) < tiny) c = tiny;
+    const delta = d * c;
+    f *= delta;
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+  return (front * f) / a;
+}
+
+// Student t 分布的双尾 p 值
+export function studentTTwoSidedP(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+// 二项分布精确检验（双尾）：k 次成功 / n 次试验，原假设成功率为 p
+export function binomialTest(k: number, n: number, p = 0.5): TestResult {
+  if (n === 0) return { statistic: 0, pValue: 1, effectSize: 0, sampleSize: 0 };
+  const logPmf = (i: number) =>
+    lnGamma(n + 1) - lnGamma(i + 1) - lnGamma(n - i + 1) + i * Math.log(p) + (n - i) * Math.log(1 - p);
+  const observed = logPmf(k);
+  let pValue = 0;
+  for (let i = 0; i <= n; i++) {
+    const lp = logPmf(i);
+    // 累加所有不比观测值更可能的结果
+    if (lp <= observed + 1e-9) pValue += Math.exp(lp);
+  }
+  return {
+    statistic: k,
+    pValue: Math.min(1, pValue),
+    effectSize: k / n - p,
+    sampleSize: n,
+  };
+}
+
+// 单样本 t 检验：样本均值是否与 mu 有显著差异；effectSize 为 Cohen's d
+export function oneSampleTTest(values: number[], mu: number): TestResult {
+  const n = values.length;
+  const m = mean(values);
+  const sd = stdDev(values);
+  if (n < 2 || sd === 0) {
+    const same = Math.abs(m - mu) < 1e-9;
+    return { statistic: same ? 0 : Infinity, pValue: same ? 1 : 0, effectSize: same ? 0 : Infinity, sampleSize: n };
+  }
+  const t = (m - mu) / (sd / Math.sqrt(n));
+  return { statistic: t, pValue: studentTTwoSidedP(t, n - 1), effectSize: (m - mu) / sd, sampleSize: n };
+}
+
+// t 分布双尾临界值（二分查找）
+export function tCriticalValue(df: number, alpha = 0.05): number {
+  let lo = 0, hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTTwoSidedP(mid, df) > alpha) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// 从文本中抽取数值；四位数年份与日期（2023-05-14、2023/5、14/05/2023）视为日期而忽略。
+// 负号只在前面不是数字或字母时成立，避免把区间（5-10）与日期里的连字符读成负数
+const NUMBER_RE = /((?:(?<![\p{L}\p{N}])-)?\d{1,3}(?:,\d{3})+|(?:(?<![\p{L}\p{N}])-)?\d+(?:\.\d+)?)\s*(%|percent\b|個百分點|个百分点)?/giu;
+const DATE_TOKEN_RE = /(?<!\p{N})(?:(?:19|20)\d{2}([-/.])(?:0?[1-9]|1[0-2])\1(?:0?[1-9]|[12]\d|3[01])|(?:19|20)\d{2}[-/](?:0?[1-9]|1[0-2])|\d{1,2}([-/.])\d{1,2}\2(?:19|20)\d{2})(?!\p{N})/gu;
+
+export function extractNumbers(text: string): NumericValue[] {
+  const values: NumericValue[] = [];
+  // 日期整段换成空格（保持位置不变）再抽数值
+  const masked = (text || '').replace(DATE_TOKEN_RE, m => ' '.repeat(m.length));
+  for (const m of masked.matchAll(NUMBER_RE)) {
+    const value = Number(m[1].replace(/,/g, ''));
+    const unit = m[2] ? '%' : '';
+    if (!Number.isFinite(value)) continue;
+    if (!unit && /^\d{4}$/.test(m[1]) && value >= 1900 && value <= 2100) continue;
+    values.push({ value, unit, raw: m[0].trim() });
+  }
+  return values;
+}
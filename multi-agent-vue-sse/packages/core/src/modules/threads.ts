@@ -0,0 +1,161 @@
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { ConversationThread, ThreadSummary, ThreadTurn } from '../types.js';
+import { CFG } from './config.js';
+import { smartTruncate } from './utils.js';
+
+// 对话串 ID 同时用作文件名，只允许字母、数字与 ._-
+const THREAD_ID_RE = /^[\w.-]{1,64}$/;
+
+export function isValidThreadId(id: unknown): id is string {
+  return typeof id === 'string' && THREAD_ID_RE.test(id);
+}
+
+function toSummary(t: ConversationThread): ThreadSummary {
+  return { id: t.id, title: t.title, createdAt: t.createdAt, updatedAt: t.updatedAt, turnCount: t.turns.length };
+}
+
+// 以首个问题作为默认标题
+export function titleFromQuestion(question: string): string {
+  return smartTruncate(question.replace(/\s+/g, ' ').trim(), 40) || '新对话';
+}
+
+// 给 Router / Writer 的历史摘要：滚动摘要 + 最近几轮原文（与 CLI 的 summarizeHistoryShort 相同格式）
+export function formatThreadHistory(thread: ConversationThread, recentTurns: number = CFG.THREAD_RECENT_TURNS): string {
+  const lines: string[] = [];
+  if (thread.summary) lines.push(`S: ${thread.summary}`);
+  for (const turn of thread.turns.slice(-recentTurns)) {
+    lines.push(`U: ${smartTruncate(turn.question, 160)}`);
+    lines.push(`A: ${smartTruncate(turn.answer, 160)}`);
+  }
+  return lines.join('\n');
+}
+
+// 对话串存储：每个对话一个 JSON 文件
+export class ThreadStore {
+  private dir: string;
+  private threads: Map<string, ConversationThread> | null = null;
+  // 串行化写入，避免同一对话的并发请求互相覆盖
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string = CFG.THREADS_DIR) {
+    this.dir = path.resolve(dir);
+  }
+
+  private async load(): Promise<Map<string, ConversationThread>> {
+    if (this.threads) return this.threads;
+    const threads = new Map<string, ConversationThread>();
+    const files = await fsp.readdir(this.dir).catch(() => [] as string[]);
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const thread = JSON.parse(await fsp.readFile(path.join(this.dir, file), 'utf8')) as ConversationThread;
+        if (isValidThreadId(thread?.id) && Array.isArray(thread.turns)) threads.set(thread.id, thread);
+      } catch (error) {
+        console.warn(`[Threads] 跳过无法解析的对话文件 ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    this.threads = threads;
+    return threads;
+  }
+
+  // 按最近更新排序
+  async list(): Promise<ThreadSummary[]> {
+    return [...(await this.load()).values()].sort((a, b) => b.updatedAt - a.updatedAt).map(toSummary);
+  }
+
+  async get(id: string): Promise<ConversationThread | null> {
+    if (!isValidThreadId(id)) return null;
+    return (await this.load()).get(id) ?? null;
+  }
+
+  async create(title: string, id: string = randomUUID()): Promise<ConversationThread> {
+    if (!isValidThreadId(id)) throw new Error(`Invalid thread id "${id}"`);
+    return this.enqueue(async () => {
+      const threads = await this.load();
+      if (threads.has(id)) throw new Error(`Thread "${id}" already exists`);
+      const now = Date.now();
+      const thread: ConversationThread = { id, title: title.trim() || '新对话', createdAt: now, updatedAt: now, turns: [] };
+      await this.persist(thread);
+      threads.set(id, thread);
+      return thread;
+    });
+  }
+
+  async rename(id: string, title: string): Promise<ThreadSummary | null> {
+    return this.update(id, thread => { thread.title = title.trim() || thread.title; });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isValidThreadId(id)) return false;
+    return this.enqueue(async () => {
+      const threads = await this.load();
+      if (!threads.has(id)) return false;
+      await fsp.rm(this.fileOf(id), { force: true });
+      threads.delete(id);
+      return true;
+    });
+  }
+
+  async appendTurn(id: string, turn: Omit<ThreadTurn, 'id' | 'ts'>): Promise<ThreadTurn | null> {
+    const full: ThreadTurn = { id: randomUUID(), ts: Date.now(), ...turn };
+    const updated = await this.update(id, thread => { thread.turns.push(full); });
+    return updated ? full : null;
+  }
+
+  // 更新滚动摘要，summarizedTurns 为摘要已涵盖的轮数
+  async setSummary(id: string, summary: string, summarizedTurns: number): Promise<void> {
+    await this.update(id, thread => {
+      thread.summary = summary;
+      thread.summarizedTurns = summarizedTurns;
+    }, false);
+  }
+
+  private async update(
+    id: string,
+    mutate: (thread: ConversationThread) => void,
+    touch = true
+  ): Promise<ThreadSummary | null> {
+    if (!isValidThreadId(id)) return null;
+    return this.enqueue(async () => {
+      const thread = (await this.load()).get(id);
+      if (!thread) return null;
+      mutate(thread);
+      if (touch) thread.updatedAt = Date.now();
+      await this.persist(thread);
+      return toSummary(thread);
+    });
+  }
+
+  // 先写临时文件再替换，避免中途失败留下半个文件
+  private async persist(thread: ConversationThread): Promise<void> {
+    await fsp.mkdir(this.dir, { recursive: true });
+    const file = this.fileOf(thread.id);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(thread), 'utf8');
+    await fsp.rename(tmp, file);
+  }
+
+  private fileOf(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(task, task);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// 同一目录共享一个实例（服务端各请求与对话 API 共用缓存与写入队列）
+const stores = new Map<string, ThreadStore>();
+
+export function getThreadStore(dir: string = CFG.THREADS_DIR): ThreadStore {
+  const key = path.resolve(dir);
+  let store = stores.get(key);
+  if (!store) {
+    store = new ThreadStore(key);
+    stores.set(key, store);
+  }
+  return store;
+}
@@ -1,4 +1,5 @@
 import { get_encoding } from '@dqbd/tiktoken';
+import { LLMMessage, LLMUsage, LLMUsageReport } from '../types.js';
 
 // 初始化编码器
 const ENCODER = get_encoding('cl100k_base');
@@ -9,6 +10,47 @@ export function hasCJK(s: string): boolean {
   return /[\u4E00-\u9FFF]/.test(s); 
 }
 
+// 依文字判斷語言（日文假名、韓文諺文優先於漢字）
+export function detectLang(s: string): 'en' | 'zh-TW' | 'ja' | 'ko' {
+  if (/[\u3040-\u30FF]/.test(s)) return 'ja';
+  if (/[\uAC00-\uD7AF]/.test(s)) return 'ko';
+  if (hasCJK(s)) return 'zh-TW';
+  return 'en';
+}
+
+// 判斷是否為因果類問題（why / what caused / 為什麼 / 原因 ...）
+const CAUSAL_EN_RE = /\b(why|how come|what (caused|causes|led to|leads to|drove|drives|triggered)|causes? of|reasons? (for|behind|why)|root cause|because of what)\b/i;
+const CAUSAL_CJK_KEYWORDS = ['為什麼', '为什么', '為何', '为何', '原因', '導致', '导致', '造成', '起因', '成因', 'なぜ', 'どうして', '왜', '원인'];
+
+export function isCausalQuestion(question: string): boolean {
+  return CAUSAL_EN_RE.test(question) || CAUSAL_CJK_KEYWORDS.some(k => question.includes(k));
+}
+
+// 分詞：拉丁文字按詞切分，CJK 文字切成二元組（bigram）
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const lower = (text || '').toLowerCase();
+  for (const part of lower.split(/[^\p{L}\p{N}]+/u)) {
+    if (!part) continue;
+    if (!hasCJK(part)) {
+      if (part.length > 1) tokens.push(part);
+      continue;
+    }
+    // 拆開中英混排，英文部分保留為詞，中文部分切 bigram
+    for (const seg of part.split(/([\u4E00-\u9FFF]+)/)) {
+      if (!seg) continue;
+      if (!hasCJK(seg)) {
+        if (seg.length > 1) tokens.push(seg);
+      } else if (seg.length === 1) {
+        tokens.push(seg);
+      } else {
+        for (let i = 0; i < seg.length - 1; i++) tokens.push(seg.slice(i, i + 2));
+      }
+    }
+  }
+  return tokens;
+}
+
 export function tryParseJSON(s: string): any | null {
   try { return JSON.parse(s); } catch {}
   
@@ -56,6 +98,9 @@ export class TokenTracker {
     catch { return Math.ceil(text.length/4); } 
   }
   
+  // 每次執行開始時歸零，同一個 pipeline 連續執行時不累加前次用量
+  reset() { this.prompt = 0; this.completion = 0; }
+  
   usage() { 
     return { 
       prompt: this.prompt, 
@@ -65,6 +110,37 @@ export class TokenTracker {
   }
 }
 
+// 累計用量；提供者未回報時以 tiktoken 估算
+export class UsageMeter {
+  private report: LLMUsageReport;
+
+  constructor(provider: string) {
+    this.report = { provider, requests: 0, embeddings: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  }
+
+  record(messages: LLMMessage[], text: string, usage?: LLMUsage): LLMUsage {
+    const counted = usage ?? {
+      promptTokens: TokenTracker.countTokens(messages.map(m => m.content).join('\n')),
+      completionTokens: TokenTracker.countTokens(text),
+      totalTokens: 0,
+    };
+    counted.totalTokens ||= counted.promptTokens + counted.completionTokens;
+    this.report.requests++;
+    this.report.promptTokens += counted.promptTokens;
+    this.report.completionTokens += counted.completionTokens;
+    this.report.totalTokens += counted.totalTokens;
+    return counted;
+  }
+
+  recordEmbeddings(count: number): void {
+    this.report.embeddings += count;
+  }
+
+  snapshot(): LLMUsageReport {
+    return { ...this.report };
+  }
+}
+
 // 語言指令生成器（進一步精簡）
 export function langDirective(lang: 'auto' | 'en' | 'zh-TW' | 'ja' | 'ko'): string {
   switch (lang) {
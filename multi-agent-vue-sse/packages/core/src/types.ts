@@ -13,6 +13,69 @@ export interface Fact {
   source: string; 
   evidence?: string; 
   published?: string; 
+  passageId?: string;  // 事實出處的段落（SourcePassage.id）
+}
+
+// 來源全文（由 PageFetcher 擷取的正文純文字，段落以換行分隔）
+export interface FetchedPage {
+  url: string;
+  finalUrl: string;  // 轉址後的網址
+  title?: string;
+  description?: string;
+  published?: string;
+  contentType: 'html' | 'pdf' | 'text';
+  content: string;
+  fetchedAt: number;
+}
+
+export type PageFetchStatus = 'ok' | 'blocked' | 'unsupported' | 'failed';
+
+export interface PageFetchResult {
+  url: string;
+  status: PageFetchStatus;  // blocked：robots.txt 不允許；unsupported：非 HTML / PDF / 純文字
+  page?: FetchedPage;
+  error?: string;
+}
+
+// 研究與查核使用的原文段落
+export interface SourcePassage {
+  id: string;                     // S<來源序號>-<段落序號>，例如 S2-3
+  url: string;
+  title?: string;
+  published?: string;
+  text: string;
+  origin: 'page' | 'snippet';     // 來自全文或搜尋摘要
+  score: number;                  // 檢索分數（0-1，未檢索時為 0）
+}
+
+// 回答中的行內引用 [n]：n 為 sources 的序號（從 1 起算）
+export interface CitationMapEntry {
+  n: number;
+  url: string;
+  title?: string;
+  published?: string;
+  facts: Array<{ statement: string; evidence?: string; passageId?: string }>;  // 出自該來源的事實
+}
+
+// 回答中的一句（含句末的引用標記）；citations 為空表示未標註引用
+export interface CitedSpan {
+  start: number;
+  end: number;
+  citations: number[];
+}
+
+export interface CitationMap {
+  entries: CitationMapEntry[];  // 內文用到的來源，依 n 排序
+  spans: CitedSpan[];           // 需要出處的句子
+  invalid: number[];            // 指向不存在來源、已自回答移除的標記
+  uncited: number;              // 未標註引用的句子數
+  coverage: number | null;      // 有引用的句子比例（沒有需要出處的句子時為 null）
+}
+
+// response 事件：回答全文與引用對照
+export interface GroundedResponse {
+  text: string;
+  citations: CitationMap;
 }
 
 export interface ResearchBundle { 
@@ -27,6 +90,7 @@ export interface RouterPlan {
   topic: 'general' | 'news'; 
   steps: string[]; 
   maxIterations: number; 
+  subQuestions?: string[];  // 拆解出的子問題，用於段落檢索
 }
 
 export interface FactCheckItem { 
@@ -39,6 +103,14 @@ export interface FactCheckReport {
   summary?: string; 
 }
 
+// Critic 評審結果；verdict 為 revise 時 Writer 依 issues / suggestions 修訂
+export interface CritiqueReport {
+  verdict: 'approve' | 'revise';
+  issues: string[];
+  suggestions: string[];
+  feedback: string;
+}
+
 export interface TokenUsage { 
   prompt: number; 
   completion: number; 
@@ -56,10 +128,166 @@ export interface Settings {
   minEnSources?: number;
   maxPerDomain?: number;
   queryExpansion?: boolean;
+  searchProvider?: string;
+  consensus?: boolean;
+  memoryScope?: string;  // 長期記憶的使用者 / 會話 ID，未提供時不讀寫記憶
+  threadId?: string;     // 對話串 ID，提供時帶入先前輪次並保存本輪
+  documents?: AttachedDocument[];  // 使用者附加的文件 / 背景資料：當作來源切段檢索，摘錄另放入 Router / Writer 提示詞
+  history?: string;      // 呼叫端自帶的對話歷史（如 OpenAI 相容介面的 messages）；有 threadId 時以對話串為準
+}
+
+// 隨請求附加的文件（POST /api/runs）
+export interface AttachedDocument {
+  title?: string;
+  url?: string;
+  content: string;
 }
 
 export type Emit = (event: string, payload: any) => void | Promise<void>;
 
+// 內建流程階段；speedMode 決定執行哪些階段（見 PIPELINE_PRESETS）
+export type StageName =
+  | 'context' | 'router' | 'search' | 'fetch' | 'retrieve' | 'research' | 'citations' | 'bias' | 'dataQuality'
+  | 'analysis' | 'causal' | 'write' | 'factcheck' | 'critique' | 'credibility' | 'record';
+
+// SSE 事件名：不論哪種速度模式都使用同一組事件與格式（run 由服務端在執行開始時送出）
+export type PipelineEventName =
+  | 'run' | 'status' | 'thread' | 'memory' | 'plan' | 'sources' | 'pages' | 'passages' | 'facts' | 'citations' | 'bias' | 'dataQuality'
+  | 'analysis' | 'causal' | 'consensus' | 'writer' | 'response' | 'draft' | 'factcheck' | 'critique'
+  | 'crossValidation' | 'hypotheses' | 'uncertainty' | 'credibility' | 'memoryStored'
+  | 'budget' | 'tokens' | 'performance' | 'error' | 'done';
+
+// 搜索提供者
+export interface SearchParams {
+  search_depth?: 'basic' | 'advanced';
+  max_results?: number;
+  topic?: 'general' | 'news';
+  days?: number;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, params: SearchParams, signal?: AbortSignal): Promise<Source[]>;
+}
+
+// LLM 提供者：各代理角色可分別指定（見 CFG.LLM_PROVIDER / LLM_ROLE_PROVIDERS）
+export type LLMRole = 'router' | 'research' | 'analyst' | 'writer' | 'factcheck' | 'critic' | 'judge' | 'embedding';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMChatRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMChatResult {
+  text: string;
+  usage?: LLMUsage;  // 提供者回報的用量（不支援時省略）
+}
+
+// 提供者累計用量
+export interface LLMUsageReport extends LLMUsage {
+  provider: string;
+  requests: number;
+  embeddings: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: LLMChatRequest): Promise<LLMChatResult>;
+  // 每收到一段增量就回呼 onDelta，結束後回傳完整文字
+  stream(request: LLMChatRequest, onDelta: (delta: string) => void | Promise<void>): Promise<LLMChatResult>;
+  embed(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]>;
+  usage(): LLMUsageReport;
+}
+
+// 錄製 / 重播：record 時記下所有模型、搜尋與網頁請求的結果，replay 時不連網直接回放
+export type CassetteMode = 'off' | 'record' | 'replay';
+export type CassetteKind = 'chat' | 'embed' | 'search' | 'page';
+
+export interface CassetteEntry {
+  kind: CassetteKind;
+  request: unknown;      // 用於產生鍵值的請求內容（方便人工檢視與比對）
+  responses: unknown[];  // 相同請求依序的回應；重播用完後重複最後一筆
+}
+
+export interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;  // 鍵為請求的 sha256
+}
+
+// 黃金問題評測：題目、預期事實、必要引用與禁止出現的說法
+export interface EvalCase {
+  id: string;
+  question: string;
+  expectedFacts?: Array<string | string[]>;  // 陣列表示同一事實的不同說法，任一符合即可
+  requiredCitations?: string[];              // 網域或 URL 片段，須出現在回答引用的來源中
+  forbiddenClaims?: string[];                // 回答中不得出現的說法（不分大小寫的片語比對）
+  settings?: Partial<Settings>;              // 覆蓋題組的設定
+}
+
+export interface EvalSuite {
+  name: string;
+  preset: Settings['speedMode'];
+  settings?: Partial<Settings>;
+  cases: EvalCase[];
+}
+
+export type VerdictCounts = Record<FactCheckItem['verdict'], number>;
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  passed: boolean;  // 無錯誤、預期事實全部涵蓋、必要引用齊全且沒有禁止說法
+  answer: string;
+  coverage: { matched: string[]; missing: string[]; score: number | null };
+  citations: {
+    cited: string[];           // 回答引用的來源 URL（去重）
+    invalid: string[];         // 無法對應到檢索來源的引用（URL 或 [n] 編號）
+    validity: number | null;   // 有效引用比例；沒有引用時為 null
+    requiredMissing: string[];
+    requiredScore: number | null;
+  };
+  forbidden: string[];
+  verdicts: VerdictCounts;
+  latencyMs: number;
+  tokens: TokenUsage | null;
+  error?: string;
+}
+
+export interface EvalSummary {
+  cases: number;
+  passed: number;
+  errors: number;
+  coverage: number | null;           // 各題涵蓋率平均
+  citationValidity: number | null;
+  requiredCitations: number | null;
+  forbiddenViolations: number;
+  verdicts: VerdictCounts;
+  latencyMs: { mean: number; p50: number; p95: number };
+  tokens: { total: number; mean: number };
+}
+
+export interface EvalReport {
+  suite: string;
+  preset: Settings['speedMode'];
+  createdAt: string;
+  summary: EvalSummary;
+  results: EvalCaseResult[];
+}
+
 // 高優先級改進功能接口
 export interface SourceAuthority {
   domain: string;
@@ -69,10 +297,89 @@ export interface SourceAuthority {
   lastVerified?: string;
 }
 
+// 對話串中的一輪問答（保存當輪來源與事實）
+export interface ThreadTurn {
+  id: string;
+  ts: number;
+  question: string;
+  answer: string;
+  sources: Source[];
+  facts: Fact[];
+}
+
+export interface ConversationThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: ThreadTurn[];
+  summary?: string;          // 較早輪次的滾動摘要
+  summarizedTurns?: number;  // summary 已涵蓋的輪數
+}
+
+// 對話串列表項（不含輪次內容）
+export interface ThreadSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  turnCount: number;
+}
+
+// 一次流程執行（run）：保存依序編號的事件，斷線重連時據以補送
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface RunEvent {
+  id: number;        // 從 1 起算的連續編號（SSE id 為 `${runId}:${id}`）
+  event: string;
+  data: any;
+  ts: number;
+}
+
+// 執行列表項（不含事件）
+export interface RunSummary {
+  id: string;
+  question: string;
+  status: RunStatus;
+  createdAt: number;
+  updatedAt: number;
+  durationMs: number;    // 進行中為目前已執行時間
+  eventCount: number;
+  tokens?: TokenUsage;   // 最後一次 tokens 事件（取消時為已用量）
+  threadId?: string;
+}
+
+export interface RunRecord extends Omit<RunSummary, 'eventCount' | 'durationMs' | 'tokens'> {
+  settings: Settings;
+  events: RunEvent[];
+}
+
+// 長期記憶條目（依使用者 / 會話 scope 隔離）
+export interface MemoryEntry {
+  id: string;
+  ts: number;
+  scope: string;
+  role: 'user' | 'assistant';
+  text: string;
+  facts?: string[];
+  entities?: string[];
+  keywords?: string[];
+  embedding?: number[];
+}
+
+// 與聲明衝突的來源，附上衝突片段
+export interface ContradictingSource extends Source {
+  span: string;
+  claimSpan?: string;
+  conflictType: 'number' | 'date' | 'negation' | 'semantic';
+  detectedBy: 'local' | 'llm';
+  conflictConfidence: number;
+}
+
 export interface CrossValidationResult {
   claim: string;
   supportingSources: Source[];
-  contradictingSources: Source[];
+  contradictingSources: ContradictingSource[];
   confidence: number;
   consensus: 'strong' | 'weak' | 'conflicting';
   evidenceStrength: 'high' | 'medium' | 'low';
@@ -94,6 +401,7 @@ export interface CredibilityScore {
     crossValidation: number;
     temporalValidity: number;
     authorityWeight: number;
+    dataQuality?: number;
   };
   recommendations: string[];
   warnings: string[];
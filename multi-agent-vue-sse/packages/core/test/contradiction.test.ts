@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContradictionDetector } from '../src/modules/contradiction.js';
+
+const detector = new ContradictionDetector();
+
+test('detectLocal 视 ISO 日期与英文写法的同一日期为一致', () => {
+  const { judgement } = detector.detectLocal('The DPO paper was released on 2023-05-29.', 'The DPO paper was released on May 29, 2023.', 'high');
+  assert.notEqual(judgement.label, 'contradiction');
+});
+
+test('detectLocal 找出日期冲突', () => {
+  const { judgement } = detector.detectLocal('The DPO paper was released on 2023-05-29.', 'The DPO paper was released on 14 March 2022.', 'high');
+  assert.equal(judgement.label, 'contradiction');
+  assert.equal(judgement.conflictType, 'date');
+});
+
+test('detectLocal 找出数字冲突，日期中的月日不算数值', () => {
+  const conflict = detector.detectLocal('The model reached 80% accuracy on the benchmark.', 'The model reached 62% accuracy on the benchmark.', 'high');
+  assert.equal(conflict.judgement.label, 'contradiction');
+  assert.equal(conflict.judgement.conflictType, 'number');
+
+  const same = detector.detectLocal('On 2023-05-29 the model reached 80% accuracy.', 'On May 29, 2023 the model reached 80% accuracy.', 'high');
+  assert.equal(same.judgement.label, 'entailment');
+});
+
+test('classify 相关度 low 的来源视为中性', async () => {
+  const [judgement] = await detector.classify('The model reached 80% accuracy.', ['The model reached 62% accuracy.'], ['low']);
+  assert.equal(judgement.label, 'neutral');
+});
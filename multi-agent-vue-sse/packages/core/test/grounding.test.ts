@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { groundCitations } from '../src/modules/grounding.js';
+import { Fact, Source } from '../src/types.js';
+
+const sources: Source[] = [
+  { title: 'RLHF', url: 'https://example.com/rlhf', snippet: '' },
+  { title: 'DPO', url: 'https://example.org/dpo', snippet: '' },
+];
+
+test('groundCitations 建立引用对照并计算覆盖率', () => {
+  const facts: Fact[] = [{ statement: 'DPO skips the reward model', source: 'https://example.org/dpo', evidence: 'no reward model', passageId: 'S2-1' }];
+  const { text, citations } = groundCitations(
+    'RLHF trains a separate reward model first [1]. DPO learns directly from preference pairs [2]. Both methods need human comparison data.',
+    sources,
+    facts,
+  );
+  assert.equal(text.includes('[1]') && text.includes('[2]'), true);
+  assert.deepEqual(citations.entries.map(e => e.n), [1, 2]);
+  assert.equal(citations.entries[1].facts[0].passageId, 'S2-1');
+  assert.equal(citations.spans.length, 3);
+  assert.equal(citations.uncited, 1);
+  assert.equal(citations.coverage, 0.67);
+});
+
+test('groundCitations 把段落 ID 换成来源序号，移除指向不存在来源的标记', () => {
+  const { text, citations } = groundCitations('DPO avoids training a reward model [S2-1]. PPO is unstable at scale [7].', sources);
+  assert.equal(text, 'DPO avoids training a reward model [2]. PPO is unstable at scale.');
+  assert.deepEqual(citations.invalid, [7]);
+});
+
+test('groundCitations 保留不在引用位置的方括号数字与年份', () => {
+  const input = '[10] items were compared in the 2023 study [1].\nThe survey [2023] found a clear preference for DPO [2].';
+  const { text, citations } = groundCitations(input, sources);
+  assert.equal(text, input);
+  assert.deepEqual(citations.invalid, []);
+});
+
+test('groundCitations 不要求标题与代码块带引用', () => {
+  const { citations } = groundCitations('# Preference optimization methods\n```\nloss = dpo(policy, reference)\n```\nDPO needs no reward model at all [2].', sources);
+  assert.equal(citations.spans.length, 1);
+  assert.equal(citations.uncited, 0);
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPathAllowed, isPrivateAddress, parseRobots } from '../src/modules/pages.js';
+
+const UA = 'MultiAgentResearch/1.0';
+
+test('parseRobots 取产品名命中的组，否则退回 *', () => {
+  const text = [
+    'User-agent: *',
+    'Disallow: /private',
+    '',
+    'User-agent: multiagentresearch',
+    'User-agent: otherbot',
+    'Disallow: /drafts  # 注释',
+    'Allow: /drafts/public',
+  ].join('\n');
+  assert.deepEqual(parseRobots(text, UA), { allow: ['/drafts/public'], disallow: ['/drafts'] });
+  assert.deepEqual(parseRobots(text, 'SomeCrawler/2.0'), { allow: [], disallow: ['/private'] });
+  assert.deepEqual(parseRobots('', UA), { allow: [], disallow: [] });
+});
+
+test('parseRobots 忽略空的 Disallow', () => {
+  assert.deepEqual(parseRobots('User-agent: *\nDisallow:', UA), { allow: [], disallow: [] });
+});
+
+test('isPathAllowed 最长匹配优先，长度相同时 Allow 优先', () => {
+  const rules = { allow: ['/docs/public', '/page'], disallow: ['/docs', '/page', '/*.pdf$'] };
+  assert.equal(isPathAllowed(rules, '/docs/intro'), false);
+  assert.equal(isPathAllowed(rules, '/docs/public/a'), true);
+  assert.equal(isPathAllowed(rules, '/page'), true);
+  assert.equal(isPathAllowed(rules, '/files/report.pdf'), false);
+  assert.equal(isPathAllowed(rules, '/files/report.pdf?x=1'), true);
+  assert.equal(isPathAllowed(rules, '/other'), true);
+});
+
+test('isPrivateAddress 拦截回环、内网、链路本地、元数据与 NAT64 地址', () => {
+  for (const address of [
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '64:ff9b::7f00:1',
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', 'example.com']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
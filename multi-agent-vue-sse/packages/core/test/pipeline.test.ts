@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { Cassette } from '../src/modules/cassette.js';
+import { ScriptedProvider } from '../src/modules/llm-providers.js';
+import { ResearchPipeline } from '../src/modules/pipeline.js';
+import { Settings } from '../src/types.js';
+
+// 重放录制好的回应；提示词或流程改动导致缺失时，以 CASSETTE_RECORD=1 重新录制
+const CASSETTE = fileURLToPath(new URL('./fixtures/pipeline.cassette.json', import.meta.url));
+const RECORD = process.env.CASSETTE_RECORD === '1';
+
+const llm = new ScriptedProvider([
+  {
+    match: 'Plan: {"useWeb"',
+    reply: JSON.stringify({ useWeb: true, topic: 'general', steps: ['research', 'analyze', 'write', 'factcheck'], maxIterations: 1 }),
+  },
+  {
+    match: 'Extract from passages',
+    reply: JSON.stringify({
+      facts: [
+        { statement: 'The team compares DPO and RLHF on its chat assistant.', passage: 'S1-1', evidence: 'compares DPO and RLHF' },
+        { statement: 'RLHF trains a reward model from human preference comparisons.', passage: 'S2-1', evidence: 'RLHF trains a reward model from human preference comparisons' },
+        { statement: 'DPO does not train a separate reward model.', passage: 'S3-1', evidence: 'does not train a separate reward model' },
+      ],
+    }),
+  },
+  { match: 'Analyze briefly', reply: 'DPO removes the reward model stage that RLHF depends on.' },
+  {
+    match: 'Write response',
+    reply: 'RLHF trains a reward model from human preference comparisons [2]. DPO optimizes the policy on preference pairs without a reward model [3]. The team notes are available [9].',
+  },
+  {
+    match: 'Check: {"claims"',
+    reply: JSON.stringify({
+      claims: [
+        { text: 'RLHF trains a reward model from human preference comparisons', verdict: 'SUPPORTED' },
+        { text: 'DPO optimizes the policy without a reward model', verdict: 'SUPPORTED' },
+      ],
+      summary: 'Both claims are supported.',
+    }),
+  },
+]);
+
+const settings: Settings = {
+  speedMode: 'balanced',
+  lang: 'en',
+  useWeb: true,
+  documents: [{ title: 'Team notes', content: 'Our team compares DPO and RLHF for fine-tuning the chat assistant on preference data.' }],
+};
+
+test('ResearchPipeline 以重放的回应跑完整个流程', async () => {
+  const cassette = new Cassette(CASSETTE, RECORD ? 'record' : 'replay');
+  const pipeline = new ResearchPipeline({ llm, cassette });
+  const events: Array<[string, any]> = [];
+  await pipeline.runPipeline('How does DPO differ from RLHF?', settings, (event, payload) => { events.push([event, payload]); });
+  await cassette.save();
+  const payload = (name: string) => events.filter(([e]) => e === name).map(([, p]) => p).at(-1);
+
+  assert.deepEqual(events.filter(([e]) => e === 'error'), []);
+  assert.equal(cassette.stats().misses, 0);
+  if (!RECORD) assert.equal(llm.calls.length, 0);
+
+  assert.deepEqual(payload('sources').map((s: { url: string }) => s.url), ['document:1', 'https://example.com/rlhf', 'https://example.org/dpo']);
+  assert.deepEqual(payload('facts').map((f: { source: string }) => f.source), ['document:1', 'https://example.com/rlhf', 'https://example.org/dpo']);
+
+  const response = payload('response');
+  assert.equal(response.text, 'RLHF trains a reward model from human preference comparisons [2]. DPO optimizes the policy on preference pairs without a reward model [3]. The team notes are available.');
+  assert.deepEqual(response.citations.entries.map((e: { n: number }) => e.n), [2, 3]);
+  assert.deepEqual(response.citations.invalid, [9]);
+  assert.equal(payload('factcheck').claims.length, 2);
+  assert.equal(events.some(([e, p]) => e === 'status' && p.stage === 'complete'), true);
+  assert.equal(events.at(-1)?.[0], 'done');
+});
@@ -0,0 +1,30 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// 测试环境：不连网、不写入工作目录。须在载入 core 模块前设定（CFG 于载入时读取环境变量）
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-core-test-'));
+const fixtures = fileURLToPath(new URL('./fixtures/', import.meta.url));
+
+Object.assign(process.env, {
+  OPENAI_API_KEY: '',
+  TAVILY_API_KEY: '',
+  LLM_PROVIDER: 'mock',
+  LLM_MOCK_SCRIPT: '',
+  SEARCH_PROVIDER: 'fixture',
+  SEARCH_FIXTURE_PATH: path.join(fixtures, 'search.json'),
+  QUERY_EXPANSION: '0',
+  PAGE_FETCH_ENABLED: '0',
+  RETRIEVAL_SCORER: 'bm25',
+  SUPPORT_SCORER: 'tfidf',
+  NLI_LLM_JUDGE: '0',
+  CONSENSUS_ENABLED: '0',
+  CASSETTE_MODE: 'off',
+  MEMORY_ENABLED: '0',
+  MEMORY_PATH: path.join(dir, 'memory.jsonl'),
+  THREADS_DIR: path.join(dir, 'threads'),
+  RUNS_DIR: path.join(dir, 'runs'),
+});
+
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PipelineStage, StageGraph, StageRun } from '../src/modules/stage-graph.js';
+import { Settings } from '../src/types.js';
+
+interface State {
+  question: string;
+  plan?: string;
+  sources?: string[];
+  facts?: string[];
+  response?: string;
+}
+
+function stage(name: string, inputs: (keyof State)[], outputs: (keyof State)[], extra: Partial<PipelineStage<State>> = {}): PipelineStage<State> {
+  return { name, inputs, outputs, errorMessage: `${name} failed`, run: async () => ({}), ...extra };
+}
+
+const names = (stages: PipelineStage<State>[]) => stages.map(s => s.name);
+
+test('resolve 按输入输出排序，无依赖时保持注册顺序', () => {
+  const graph = new StageGraph<State>()
+    .register(stage('write', ['facts'], ['response']))
+    .register(stage('research', ['sources'], ['facts']))
+    .register(stage('search', ['plan'], ['sources']))
+    .register(stage('router', ['question'], ['plan']));
+  assert.deepEqual(names(graph.resolve(['router', 'search', 'research', 'write'], ['question'])), ['router', 'search', 'research', 'write']);
+  assert.deepEqual(names(graph.resolve(['write', 'research'], ['question', 'sources'])), ['research', 'write']);
+});
+
+test('resolve 不把阶段自身的产出算作依赖', () => {
+  const graph = new StageGraph<State>()
+    .register(stage('fetch', ['sources'], ['sources']))
+    .register(stage('search', ['question'], ['sources']));
+  assert.deepEqual(names(graph.resolve(['fetch', 'search'], ['question'])), ['search', 'fetch']);
+});
+
+test('resolve 对缺少输入、未知阶段与循环依赖报错', () => {
+  const graph = new StageGraph<State>()
+    .register(stage('research', ['sources'], ['facts']))
+    .register(stage('a', ['plan'], ['sources']))
+    .register(stage('b', ['sources'], ['plan']));
+  assert.throws(() => graph.resolve(['research'], ['question']), /requires "sources"/);
+  assert.throws(() => graph.resolve(['nope'], ['question']), /Unknown stage\(s\): nope/);
+  assert.throws(() => graph.resolve(['a', 'b'], ['question']), /Stage cycle among: a, b/);
+  assert.throws(() => graph.register(stage('a', [], [])), /already registered/);
+});
+
+test('run 只合并声明的输出，失败时送出 error 事件，关键阶段失败即终止', async () => {
+  const events: Array<[string, any]> = [];
+  const graph = new StageGraph<State>()
+    .register(stage('router', ['question'], ['plan'], { run: async () => ({ plan: 'p', response: 'leak' }) }))
+    .register(stage('search', ['plan'], ['sources'], { critical: true, run: async () => { throw new Error('offline'); } }))
+    .register(stage('write', ['sources'], ['response']));
+  const state: State = { question: 'q' };
+  const run: StageRun = { question: 'q', settings: { speedMode: 'fast', lang: 'en', useWeb: true } as Settings, emit: (e, p) => { events.push([e, p]); } };
+  const result = await graph.run(['router', 'search', 'write'], state, run);
+
+  assert.deepEqual(state, { question: 'q', plan: 'p' });
+  assert.deepEqual(result.completed, ['router']);
+  assert.deepEqual(result.failed, ['search']);
+  assert.equal(result.aborted, true);
+  assert.deepEqual(events.find(([e]) => e === 'error')?.[1], { message: 'search failed', error: 'offline', stage: 'search' });
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { binomialTest, extractNumbers, oneSampleTTest } from '../src/modules/stats.js';
+
+const values = (text: string) => extractNumbers(text).map(n => `${n.value}${n.unit}`);
+
+test('extractNumbers 抽取整数、小数、千分位与百分比', () => {
+  assert.deepEqual(values('Accuracy rose from 71.5% to 80 percent on 12,400 prompts.'), ['71.5%', '80%', '12400']);
+  assert.deepEqual(values('失业率下降 1.2 个百分点'), ['1.2%']);
+});
+
+test('extractNumbers 忽略年份与日期', () => {
+  assert.deepEqual(values('Released on 2023-05-14 and updated 14/05/2023, in 2024 it had 3 versions.'), ['3']);
+  assert.deepEqual(values('Data from 2023/5 shows 40%.'), ['40%']);
+});
+
+test('extractNumbers 不把区间与连字符读成负数', () => {
+  assert.deepEqual(values('It takes 5-10 days; the temperature was -3 degrees.'), ['5', '10', '-3']);
+  assert.deepEqual(values('GPT-4 scored 86'), ['4', '86']);
+});
+
+test('binomialTest 与 oneSampleTTest 给出合理的 p 值', () => {
+  assert.ok(binomialTest(9, 10).pValue < 0.05);
+  assert.ok(binomialTest(5, 10).pValue > 0.5);
+  assert.ok(oneSampleTTest([10.1, 9.9, 10.2, 10.0, 9.8], 10).pValue > 0.5);
+});